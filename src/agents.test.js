@@ -1,12 +1,20 @@
 import { describe, it, beforeEach } from 'node:test';
 import assert from 'node:assert';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { 
   parseJsonOutput, 
   cancel,
   resetCancel,
   isCancelled,
+  callAgent,
+  buildChairPrompt,
   checkOpenCodeAvailable
 } from './agents.js';
+import { createMockBackend } from './backends.js';
+import { loadConfig } from './config.js';
+import { DEFAULT_CONFIG } from './defaults.js';
 
 describe('agents.ts', () => {
   describe('parseJsonOutput', () => {
@@ -59,10 +67,218 @@ More plain text`;
     });
   });
 
+  describe('callAgent', () => {
+    const config = {
+      ...DEFAULT_CONFIG,
+      backend: createMockBackend({ responses: { arch: 'Ответ' } })
+    };
+
+    it('должен возвращать CANCELLED для отменённого сигнала', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      
+      const result = await callAgent('arch', 'Задача', config, { signal: controller.signal });
+      assert.strictEqual(result.success, false);
+      assert.strictEqual(result.errorCode, 'CANCELLED');
+    });
+
+    it('должен вызывать агента без сигнала отмены', async () => {
+      const result = await callAgent('arch', 'Задача', config);
+      assert.strictEqual(result.success, true);
+      assert.strictEqual(result.text, 'Ответ');
+    });
+
+    it('должен собирать журнал событий по всем попыткам', async () => {
+      const transcriptConfig = {
+        ...DEFAULT_CONFIG,
+        transcript: true,
+        retry: { ...DEFAULT_CONFIG.retry, expertRetries: 1, delay: 1 },
+        backend: createMockBackend({
+          responses: {
+            arch: (prompt, options) => options.attempt === 0
+              ? { text: '', success: false, errorCode: 'EMPTY_RESPONSE', transcript: [{ type: 'error', event: 'error', attempt: 0, raw: {} }] }
+              : { text: 'Ответ', sessionId: 'ses_2', transcript: [{ type: 'text', event: 'text', attempt: 1, raw: {} }] }
+          }
+        })
+      };
+
+      const result = await callAgent('arch', 'Задача', transcriptConfig);
+      assert.strictEqual(result.sessionId, 'ses_2');
+      assert.deepStrictEqual(result.transcript.map(e => [e.type, e.attempt]), [['error', 0], ['text', 1]]);
+    });
+
+    it('должен брать повторный ответ из кэша, кроме обновляемых агентов', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'consilium-cache-'));
+      let calls = 0;
+      const cachedConfig = {
+        ...DEFAULT_CONFIG,
+        cache: { dir },
+        backend: createMockBackend({
+          responses: { arch: () => `Ответ ${++calls}` }
+        })
+      };
+
+      try {
+        const first = await callAgent('arch', 'Задача', cachedConfig);
+        const second = await callAgent('arch', 'Задача', cachedConfig);
+        const other = await callAgent('arch', 'Другая задача', cachedConfig);
+        const refreshed = await callAgent('arch', 'Задача', { ...cachedConfig, cache: { dir, refresh: ['arch'] } });
+        const updated = await callAgent('arch', 'Задача', cachedConfig);
+
+        assert.strictEqual(first.cached, undefined);
+        assert.strictEqual(second.cached, true);
+        assert.strictEqual(second.text, 'Ответ 1');
+        assert.ok(second.cachedAt > 0);
+        assert.strictEqual(other.text, 'Ответ 2');
+        assert.strictEqual(refreshed.text, 'Ответ 3');
+        assert.strictEqual(updated.text, 'Ответ 3');
+        assert.strictEqual(calls, 3);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('не должен делить кэш между разными рабочими директориями', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'consilium-cache-'));
+      let calls = 0;
+      const cachedConfig = {
+        ...DEFAULT_CONFIG,
+        cache: { dir },
+        backend: createMockBackend({
+          responses: { arch: () => `Ответ ${++calls}` }
+        })
+      };
+
+      try {
+        const first = await callAgent('arch', 'Задача', { ...cachedConfig, cwd: 'a' });
+        const second = await callAgent('arch', 'Задача', { ...cachedConfig, cwd: 'b' });
+        const nested = await callAgent('arch', 'Задача', { ...cachedConfig, cwd: 'a' }, { cwd: 'nested' });
+        const repeated = await callAgent('arch', 'Задача', { ...cachedConfig, cwd: 'a' });
+
+        assert.strictEqual(first.text, 'Ответ 1');
+        assert.strictEqual(second.text, 'Ответ 2');
+        assert.strictEqual(nested.text, 'Ответ 3');
+        assert.strictEqual(repeated.cached, true);
+        assert.strictEqual(repeated.text, 'Ответ 1');
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('не должен повторять фатальные ошибки', async () => {
+      const prompts = [];
+      const fatalConfig = {
+        ...DEFAULT_CONFIG,
+        retry: { ...DEFAULT_CONFIG.retry, expertRetries: 3, delay: 1 },
+        backend: createMockBackend({
+          responses: {
+            ghost: (prompt) => {
+              prompts.push(prompt);
+              return { text: '[Агент ghost не вернул текст]', success: false, errorCode: 'AGENT_NOT_FOUND' };
+            }
+          }
+        })
+      };
+
+      const result = await callAgent('ghost', 'Задача', fatalConfig);
+      assert.strictEqual(result.errorCode, 'AGENT_NOT_FOUND');
+      assert.strictEqual(prompts.length, 1);
+    });
+
+    it('должен применять лимит провайдера к модели автоопределённого агента', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'consilium-opencode-'));
+      const opencodePath = join(dir, 'opencode.json');
+      const configPath = join(dir, 'consilium.config.json');
+
+      try {
+        writeFileSync(opencodePath, JSON.stringify({
+          model: 'anthropic/claude-sonnet',
+          agent: { arch: { model: 'openrouter/qwen' }, sec: { model: 'openrouter/gemma' }, ux: {} }
+        }));
+        writeFileSync(configPath, JSON.stringify({ opencodeConfigPath: opencodePath, rateLimits: { openrouter: 1 } }));
+
+        const { config } = loadConfig(configPath);
+        assert.deepStrictEqual(config.experts.map(e => e.name), ['arch', 'sec', 'ux']);
+        assert.strictEqual(config.openCodeAgents.ux.model, 'anthropic/claude-sonnet');
+
+        const limitedConfig = { ...config, backend: createMockBackend({ responses: { arch: 'A', sec: 'B', ux: 'C' } }) };
+        const controller = new AbortController();
+        setTimeout(() => controller.abort(), 50);
+
+        const [arch, sec, ux] = await Promise.all(['arch', 'sec', 'ux'].map(name =>
+          callAgent(name, 'Задача', limitedConfig, { signal: controller.signal })
+        ));
+        assert.strictEqual(arch.text, 'A');
+        assert.strictEqual(sec.errorCode, 'CANCELLED');
+        assert.strictEqual(ux.text, 'C');
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('должен ждать не меньше Retry-After и повторять только ошибки из retryOn', async () => {
+      const limitedConfig = {
+        ...DEFAULT_CONFIG,
+        retry: { expertRetries: 2, chairRetries: 0, delay: 1, exponentialBackoff: false, retryOn: ['RATE_LIMIT'] },
+        backend: createMockBackend({
+          responses: {
+            arch: [
+              { text: '', success: false, errorCode: 'RATE_LIMIT', retryAfter: 40 },
+              { text: '', success: false, errorCode: 'TIMEOUT' },
+              'Не должен быть вызван'
+            ]
+          }
+        })
+      };
+
+      const startTime = Date.now();
+      const result = await callAgent('arch', 'Задача', limitedConfig);
+      assert.strictEqual(result.errorCode, 'TIMEOUT');
+      assert.strictEqual(result.attempt, 1);
+      assert.ok(Date.now() - startTime >= 35);
+    });
+  });
+
+  describe('buildChairPrompt', () => {
+    const experts = [
+      { agent: 'arch', text: 'Первый абзац.\n\nВторой абзац, который не влезет в лимит.', success: true },
+      { agent: 'sec', text: '', success: false }
+    ];
+
+    it('должен учитывать maxExpertTextLength и разделы ответа по умолчанию', () => {
+      const prompt = buildChairPrompt(experts, 'Задача', {
+        ...DEFAULT_CONFIG,
+        chair: { ...DEFAULT_CONFIG.chair, maxExpertTextLength: 24, sections: ['Итог', 'Риски'] }
+      });
+
+      assert.ok(prompt.includes('### ARCH\nПервый абзац.\n[...обрезано: 13 из 55 символов]'));
+      assert.ok(prompt.includes('## Не ответили\nsec'));
+      assert.ok(prompt.endsWith('## Требования к ответу\n1. Итог\n2. Риски'));
+    });
+
+    it('должен отрисовывать строковый шаблон с циклом по ответам', () => {
+      const prompt = buildChairPrompt(experts, 'Задача', {
+        ...DEFAULT_CONFIG,
+        chair: {
+          ...DEFAULT_CONFIG.chair,
+          maxExpertTextLength: 30,
+          promptTemplate: '${each answers}${index}) ${agent}${if truncated} (сокращено)${/if}${/each}; ${each sections}${item}${if !last}, ${/if}${/each}'
+        }
+      });
+
+      assert.strictEqual(prompt, '1) arch (сокращено); **Резюме** (1-2 предложения), **Топ-3 приоритетных действия** с обоснованием, **Главный риск** и митигация, **Оценка трудозатрат** (если применимо)');
+    });
+  });
+
   describe('checkOpenCodeAvailable', () => {
     it('должен проверять доступность opencode', async () => {
       const available = await checkOpenCodeAvailable();
       assert.strictEqual(typeof available, 'boolean');
     });
+
+    it('должен использовать opencodePath из конфига', async () => {
+      const available = await checkOpenCodeAvailable({ opencodePath: './nonexistent-opencode' });
+      assert.strictEqual(available, false);
+    });
   });
 });
@@ -3,108 +3,186 @@
  * @module opencode-consilium
  */
 
-import { spawn, ChildProcess } from 'child_process';
-import type { AgentResult, ConsiliumConfig, ExpertConfig } from './types.js';
-import { DEFAULT_EXPERT_PROMPTS, DEFAULT_CHAIR_PROMPT_TEMPLATE } from './defaults.js';
+import type {
+  AgentChunk,
+  AgentListeners,
+  AgentResult,
+  ConsiliumConfig,
+  DeliberationContext,
+  ExpertConfig,
+  InvocationMode,
+  InvocationStrategy,
+  OutputSchema,
+  TokenUsage,
+  TranscriptEvent
+} from './types.js';
+import {
+  DEFAULT_CHAIR_PROMPT_TEMPLATE,
+  DEFAULT_DELIBERATION_PROMPT_TEMPLATE,
+  buildChairTemplateVars,
+  formatExpertOpinions
+} from './defaults.js';
+import { resolveBackend, resolveCwd, sleep } from './backends.js';
+import { buildSchemaInstruction, parseStructuredOutput } from './schema.js';
+import { resolveScheduler } from './scheduler.js';
+import { isRetryable } from './errors.js';
+import { addUsage, applyPricing } from './usage.js';
+import { computeCacheKey, getCacheConfig, readCacheEntry, writeCacheEntry } from './cache.js';
+import { appendProjectContext } from './context.js';
+import { loadPromptFile, renderTemplate, truncateText } from './template.js';
+import { appendAnswerLanguage, getMessages, resolveLocale } from './i18n.js';
+import { isPanelName } from './panels.js';
+
+export { parseJsonOutput, checkOpenCodeAvailable } from './backends.js';
 
 /**
- * Активные процессы для graceful shutdown
+ * Контроллеры активных запусков для глобального cancel()
  */
-const activeProcesses: Set<ChildProcess> = new Set();
+const activeRuns: Set<AbortController> = new Set();
 
 /**
- * Флаг отмены
+ * Флаг глобальной отмены
  */
 let cancelled = false;
 
 /**
- * Устанавливает флаг отмены и убивает все активные процессы
+ * Регистрирует запуск для глобального cancel(); возвращает функцию снятия регистрации
+ *
+ * Как и прежде, до resetCancel() новые запуски сразу отменяются.
+ */
+export function registerRun(controller: AbortController): () => void {
+  if (cancelled) {
+    controller.abort();
+  }
+  activeRuns.add(controller);
+  return () => {
+    activeRuns.delete(controller);
+  };
+}
+
+/**
+ * Отменяет все активные запуски
+ *
+ * @deprecated Используйте Consilium.cancel() или RunOptions.signal — они отменяют только свой запуск
  */
 export function cancel(): void {
   cancelled = true;
-  for (const proc of activeProcesses) {
-    try {
-      proc.kill('SIGTERM');
-    } catch {
-      // Игнорируем ошибки при kill
-    }
+  for (const controller of activeRuns) {
+    controller.abort();
   }
-  activeProcesses.clear();
 }
 
 /**
- * Сбрасывает флаг отмены
+ * Сбрасывает флаг глобальной отмены
+ *
+ * @deprecated Отмена через AbortSignal не требует сброса
  */
 export function resetCancel(): void {
   cancelled = false;
 }
 
 /**
- * Проверяет, отменён ли запуск
+ * Проверяет, вызывался ли глобальный cancel()
+ *
+ * @deprecated Используйте AbortSignal.aborted
  */
 export function isCancelled(): boolean {
   return cancelled;
 }
 
-/**
- * Парсит JSON-вывод OpenCode CLI
- */
-export function parseJsonOutput(output: string): string {
-  const lines = output.trim().split('\n');
-  const textParts: string[] = [];
-
-  for (const line of lines) {
-    const trimmed = line.trim();
-    if (!trimmed) continue;
-
-    try {
-      const event = JSON.parse(trimmed);
-      if (event.type === 'text' && event.part?.text) {
-        textParts.push(event.part.text);
-      }
-    } catch {
-      // Игнорируем не-JSON строки
-    }
-  }
-
-  return textParts.join('');
-}
-
 /**
  * Вычисляет задержку для retry
  */
 function calculateRetryDelay(
   attempt: number,
   baseDelay: number,
-  exponentialBackoff: boolean
+  exponentialBackoff: boolean,
+  jitter: number = 0
 ): number {
-  if (!exponentialBackoff) {
-    return baseDelay;
-  }
-  return baseDelay * Math.pow(2, attempt);
+  const delay = exponentialBackoff ? baseDelay * Math.pow(2, attempt) : baseDelay;
+  // Разносим повторы параллельных экспертов во времени
+  return Math.round(delay * (1 + Math.random() * jitter));
 }
 
 /**
  * Формирует промпт для эксперта
  */
-function buildPrompt(
+export function buildExpertPrompt(
   expert: ExpertConfig,
-  task: string
+  task: string,
+  config: ConsiliumConfig,
+  projectContext?: string
 ): string {
-  if (expert.prompt) {
-    if (typeof expert.prompt === 'function') {
-      return expert.prompt(task);
-    }
-    // Заменяем ${task} в строке
-    return expert.prompt.replace(/\$\{task\}/g, task);
+  const locale = resolveLocale(config);
+  const template = expert.promptFile ? loadPromptFile(expert.promptFile, undefined, locale) : expert.prompt;
+  let prompt: string;
+
+  if (typeof template === 'function') {
+    prompt = template(task, projectContext);
+  } else if (typeof template === 'string') {
+    prompt = renderTemplate(template, {
+      ...config.vars,
+      ...expert.vars,
+      task,
+      expert: expert.name,
+      context: projectContext ?? '',
+      round: 1
+    }, config.partials, locale);
+  } else {
+    const { experts } = getMessages(locale).prompts;
+    prompt = (experts[expert.name] ?? experts.default)(task);
+  }
+
+  return appendAnswerLanguage(appendProjectContext(prompt, projectContext, locale), config);
+}
+
+/**
+ * Формирует промпт председателя
+ */
+export function buildChairPrompt(
+  expertResults: AgentResult[],
+  task: string,
+  config: ConsiliumConfig,
+  projectContext?: string
+): string {
+  const locale = resolveLocale(config);
+  const template = config.chair.promptFile ? loadPromptFile(config.chair.promptFile, undefined, locale) : config.chair.promptTemplate;
+  const options = {
+    maxLength: config.chair.maxExpertTextLength,
+    sections: config.chair.sections,
+    locale,
+    panel: isPanelName(config.panel) ? config.panel : undefined
+  };
+
+  let prompt: string;
+  if (typeof template === 'function') {
+    prompt = template(task, expertResults);
+  } else if (typeof template === 'string') {
+    prompt = renderTemplate(template, {
+      ...config.vars,
+      ...buildChairTemplateVars(task, expertResults, options),
+      context: projectContext ?? ''
+    }, config.partials, locale);
+  } else {
+    prompt = DEFAULT_CHAIR_PROMPT_TEMPLATE(task, expertResults, options);
   }
 
-  const defaultPrompt = DEFAULT_EXPERT_PROMPTS[expert.name] ?? DEFAULT_EXPERT_PROMPTS.default;
-  return typeof defaultPrompt === 'function' ? defaultPrompt(task) : task;
+  return appendAnswerLanguage(prompt, config);
 }
 
 /**
- * Вызывает одного агента с retry
+ * Возвращает модель агента: переопределение из конфига или модель из opencode.json
+ */
+export function resolveAgentModel(
+  config: ConsiliumConfig,
+  agentName: string,
+  model?: string
+): string | undefined {
+  return model ?? config.openCodeAgents?.[agentName]?.model;
+}
+
+/**
+ * Вызывает одного агента через бэкенд с retry
  */
 export async function callAgent(
   agentName: string,
@@ -114,170 +192,260 @@ export async function callAgent(
     timeout?: number;
     retries?: number;
     isChair?: boolean;
+    /** Вызывать хуки фрагментов и ошибок (false — служебные вызовы, например судья согласия) */
+    hooks?: boolean;
+    invocation?: InvocationMode | InvocationStrategy;
+    model?: string;
+    cwd?: string;
+    args?: string[];
+    env?: Record<string, string>;
+    onChunk?: (chunk: AgentChunk) => void;
+    signal?: AbortSignal;
+    outputSchema?: OutputSchema;
+    priority?: number;
   } = {}
 ): Promise<AgentResult> {
   const {
     timeout = config.timeouts.expert,
     retries = config.retry.expertRetries,
-    isChair = false
+    isChair = false,
+    hooks = true,
+    invocation = config.invocation,
+    model,
+    cwd,
+    args,
+    env,
+    onChunk,
+    signal,
+    outputSchema,
+    priority
   } = options;
 
+  const backend = resolveBackend(config);
+  // Очередь ограничивает только запуск экспертов
+  const scheduler = isChair ? null : resolveScheduler(config);
+  const agentModel = resolveAgentModel(config, agentName, model);
+  const chunkHook = !hooks ? undefined : isChair ? config.hooks?.onChairChunk : config.hooks?.onExpertChunk;
+
+  const emitChunk = (text: string, attempt: number) => {
+    const chunk: AgentChunk = { agent: agentName, text, attempt };
+    try {
+      chunkHook?.(chunk);
+      onChunk?.(chunk);
+    } catch {
+      // Ошибки обработчиков не должны прерывать поток
+    }
+  };
+
+  // Повторный запуск той же задачи берёт ответ с диска, не вызывая агента
+  const cache = getCacheConfig(config);
+  const cacheKey = cache && computeCacheKey({
+    agent: agentName,
+    prompt,
+    model: agentModel,
+    agentDefinition: config.openCodeAgents?.[agentName],
+    backend: backend.name,
+    invocation: typeof invocation === 'function' ? 'custom' : invocation,
+    outputSchema,
+    cwd: resolveCwd(config, cwd),
+    env,
+    opencodePath: config.opencodePath,
+    opencodeArgs: config.opencodeArgs,
+    args,
+    transcript: config.transcript
+  });
+
+  if (cache && cacheKey && !signal?.aborted && !cache.refresh?.includes(agentName)) {
+    const entry = readCacheEntry(cache, cacheKey);
+    if (entry) {
+      emitChunk(entry.result.text, 0);
+      // Токены кэшированного ответа в этом запуске не потрачены
+      return { ...entry.result, usage: undefined, queueTime: undefined, cached: true, cachedAt: entry.createdAt };
+    }
+  }
+
   const maxAttempts = retries + 1;
   let lastError: AgentResult | null = null;
+  let schemaErrors: string[] = [];
+  let queueTime = 0;
+  let usage: TokenUsage | undefined;
+  let transcript: TranscriptEvent[] | undefined;
+
+  const locale = resolveLocale(config);
+  const { results: placeholders } = getMessages(locale);
 
   for (let attempt = 0; attempt < maxAttempts; attempt++) {
-    if (cancelled) {
-      return {
-        agent: agentName,
-        text: '[Отменено]',
-        success: false,
-        errorCode: 'TIMEOUT',
-        attempt
-      };
+    const cancelledResult: AgentResult = {
+      agent: agentName,
+      text: placeholders.cancelled,
+      success: false,
+      errorCode: 'CANCELLED',
+      attempt
+    };
+
+    if (signal?.aborted) {
+      return cancelledResult;
     }
 
-    // Задержка перед retry
+    // Задержка перед retry: не меньше подсказки Retry-After, но не больше maxDelay
     if (attempt > 0) {
-      const delay = calculateRetryDelay(
+      const backoff = calculateRetryDelay(
         attempt - 1,
         config.retry.delay,
-        config.retry.exponentialBackoff
+        config.retry.exponentialBackoff,
+        config.retry.jitter
+      );
+      const delay = Math.min(
+        Math.max(backoff, lastError?.retryAfter ?? 0),
+        config.retry.maxDelay ?? Infinity
       );
-      await new Promise(resolve => setTimeout(resolve, delay));
+      if (!(await sleep(delay, signal))) {
+        return cancelledResult;
+      }
+    }
+
+    // При повторе после невалидного ответа сообщаем агенту, что исправить
+    let attemptPrompt = outputSchema ? buildSchemaInstruction(prompt, outputSchema, locale) : prompt;
+    if (schemaErrors.length > 0) {
+      attemptPrompt += `\n\n${getMessages(locale).prompts.schema.invalid}\n${schemaErrors.map(e => `- ${e}`).join('\n')}`;
     }
 
+    // Каждая попытка заново встаёт в очередь, задержка retry слот не занимает
+    const slot = scheduler ? await scheduler.acquire({ priority, model: agentModel, signal }) : null;
+    if (scheduler && !slot) {
+      return { ...cancelledResult, queueTime };
+    }
+    queueTime += slot?.waited ?? 0;
+
     const startTime = Date.now();
-    const result = await callAgentOnce(agentName, prompt, timeout, attempt);
+    const result = await backend.invoke(agentName, attemptPrompt, {
+      timeout,
+      attempt,
+      isChair,
+      invocation,
+      model,
+      cwd,
+      args,
+      env,
+      onChunk: (text) => emitChunk(text, attempt),
+      signal,
+      transcript: config.transcript,
+      locale
+    }).finally(() => slot?.release());
+
+    if (scheduler) {
+      result.queueTime = queueTime;
+    }
+
+    // Токены неудачных попыток тоже потрачены
+    if (result.usage) {
+      // Модель агента из opencode.json нужна, чтобы к расходу применились цены
+      const reported = result.usage.model || !agentModel ? result.usage : { ...result.usage, model: agentModel };
+      const priced = applyPricing(reported, config.pricing);
+      usage = usage ? addUsage(usage, priced) : priced;
+    }
+    if (usage) {
+      result.usage = usage;
+    }
+
+    // Журнал копится по попыткам, чтобы в аудите были видны и неудачные
+    if (result.transcript) {
+      transcript = [...(transcript ?? []), ...result.transcript];
+    }
+    if (transcript) {
+      result.transcript = transcript;
+    }
+
+    if (result.success && outputSchema) {
+      const { data, errors } = parseStructuredOutput(result.text, outputSchema, locale);
+      schemaErrors = errors;
+      if (errors.length === 0) {
+        result.data = data;
+      } else {
+        result.success = false;
+        result.errorCode = 'PARSE_ERROR';
+        result.text = `${placeholders.schemaMismatch(errors.join('; '))}\n\n${result.text}`;
+      }
+    }
 
     if (result.success) {
       result.duration = Date.now() - startTime;
+      if (cache && cacheKey) {
+        writeCacheEntry(cache, cacheKey, result, agentModel);
+      }
+      return result;
+    }
+
+    // Отмена не считается ошибкой агента и не повторяется
+    if (result.errorCode === 'CANCELLED') {
       return result;
     }
 
     lastError = result;
 
     // Вызываем хук ошибки если есть
-    if (config.hooks) {
+    if (config.hooks && hooks) {
       const errorHook = isChair ? config.hooks.onChairError : config.hooks.onExpertError;
       if (errorHook) {
         await errorHook(result);
       }
     }
+
+    // Фатальные ошибки (нет агента, неверный ключ) повторять бессмысленно
+    if (!isRetryable(result, config.retry)) {
+      break;
+    }
   }
 
   return lastError || {
     agent: agentName,
-    text: '[Все попытки исчерпаны]',
+    text: placeholders.attemptsExhausted,
     success: false,
     errorCode: 'TIMEOUT'
   };
 }
 
 /**
- * Выполняет один вызов агента
+ * Вызывает одного эксперта с хуками и слушателями
  */
-async function callAgentOnce(
-  agentName: string,
+async function callExpert(
+  expert: ExpertConfig,
   prompt: string,
-  timeoutMs: number,
-  attempt: number
+  task: string,
+  round: number,
+  config: ConsiliumConfig,
+  listeners: AgentListeners,
+  signal?: AbortSignal
 ): Promise<AgentResult> {
-  return new Promise((resolve) => {
-    const args = [
-      'run',
-      '--format', 'json',
-      '--port', '0',
-      prompt
-    ];
-
-    // Добавляем --agent только если это не subagent
-    // Примечание: subagent'ы нельзя вызвать напрямую через CLI
-    // const args = ['run', '--dir', '.', '--format', 'json', '--agent', agentName, prompt];
-
-    const child = spawn('opencode', args, {
-      cwd: process.cwd(),
-      stdio: ['ignore', 'pipe', 'pipe'],
-      windowsHide: true,
-      shell: process.platform === 'win32'
-    });
-
-    activeProcesses.add(child);
-
-    let stdout = '';
-    let stderr = '';
-    let finished = false;
-
-    const timeoutId = setTimeout(() => {
-      if (finished) return;
-      finished = true;
-      activeProcesses.delete(child);
-
-      try {
-        child.kill('SIGTERM');
-      } catch {
-        // Игнорируем
-      }
+  // Вызываем хук начала эксперта
+  if (config.hooks?.onExpertStart) {
+    await config.hooks.onExpertStart(expert.name, task);
+  }
+  listeners.onStart?.(expert.name);
+
+  const result = await callAgent(expert.name, prompt, config, {
+    timeout: expert.timeout || config.timeouts.expert,
+    retries: expert.retries ?? config.retry.expertRetries,
+    isChair: false,
+    invocation: expert.invocation ?? config.invocation,
+    model: expert.model,
+    cwd: expert.cwd,
+    args: expert.args,
+    env: expert.env,
+    onChunk: listeners.onChunk,
+    signal,
+    outputSchema: expert.outputSchema,
+    priority: expert.priority
+  });
+  result.round = round;
 
-      resolve({
-        agent: agentName,
-        text: `[Таймаут ${agentName}]`,
-        success: false,
-        errorCode: 'TIMEOUT',
-        attempt
-      });
-    }, timeoutMs);
-
-    child.stdout.on('data', (data: Buffer) => {
-      stdout += data.toString();
-    });
-
-    child.stderr.on('data', (data: Buffer) => {
-      stderr += data.toString();
-    });
-
-    child.on('close', (code: number | null) => {
-      if (finished) return;
-      finished = true;
-      clearTimeout(timeoutId);
-      activeProcesses.delete(child);
-
-      const text = parseJsonOutput(stdout);
-
-      if (!text) {
-        const errorDetails = stderr ? ` stderr: ${stderr.substring(0, 500)}` : '';
-        resolve({
-          agent: agentName,
-          text: `[Агент ${agentName} не вернул текст]${errorDetails}`,
-          success: false,
-          errorCode: 'EMPTY_RESPONSE',
-          attempt
-        });
-        return;
-      }
+  // Вызываем хук окончания эксперта
+  if (config.hooks?.onExpertEnd) {
+    await config.hooks.onExpertEnd(result);
+  }
+  listeners.onEnd?.(result);
 
-      resolve({
-        agent: agentName,
-        text,
-        success: true,
-        attempt
-      });
-    });
-
-    child.on('error', (err: Error) => {
-      if (finished) return;
-      finished = true;
-      clearTimeout(timeoutId);
-      activeProcesses.delete(child);
-
-      resolve({
-        agent: agentName,
-        text: `[Ошибка: ${err.message}]`,
-        success: false,
-        errorCode: 'SPAWN_ERROR',
-        attempt
-      });
-    });
-  });
+  return result;
 }
 
 /**
@@ -286,33 +454,69 @@ async function callAgentOnce(
 export async function callExpertsParallel(
   experts: ExpertConfig[],
   task: string,
-  config: ConsiliumConfig
+  config: ConsiliumConfig,
+  listeners: AgentListeners = {},
+  signal?: AbortSignal,
+  projectContext?: string
 ): Promise<AgentResult[]> {
   const enabledExperts = experts.filter(e => e.enabled !== false);
 
-  const promises = enabledExperts.map(async (expert) => {
-    const prompt = buildPrompt(expert, task);
-
-    // Вызываем хук начала эксперта
-    if (config.hooks?.onExpertStart) {
-      await config.hooks.onExpertStart(expert.name, task);
-    }
-
-    const result = await callAgent(expert.name, prompt, config, {
-      timeout: expert.timeout || config.timeouts.expert,
-      retries: expert.retries ?? config.retry.expertRetries,
-      isChair: false
-    });
+  return Promise.all(enabledExperts.map(expert =>
+    callExpert(expert, buildExpertPrompt(expert, task, config, projectContext), task, 1, config, listeners, signal)
+  ));
+}
 
-    // Вызываем хук окончания эксперта
-    if (config.hooks?.onExpertEnd) {
-      await config.hooks.onExpertEnd(result);
+/**
+ * Проводит раунд обсуждения: каждый эксперт видит мнения остальных из предыдущего раунда
+ */
+export async function callDeliberationRound(
+  experts: ExpertConfig[],
+  task: string,
+  previousRound: AgentResult[],
+  round: number,
+  config: ConsiliumConfig,
+  listeners: AgentListeners = {},
+  signal?: AbortSignal,
+  projectContext?: string
+): Promise<AgentResult[]> {
+  const enabledExperts = experts.filter(e => e.enabled !== false);
+  const maxOpinionLength = config.deliberation?.maxOpinionLength ?? 2000;
+  const locale = resolveLocale(config);
+
+  return Promise.all(enabledExperts.map(expert => {
+    const context: DeliberationContext = {
+      task,
+      expert: expert.name,
+      round,
+      own: previousRound.find(r => r.agent === expert.name),
+      others: previousRound.filter(r => r.agent !== expert.name && r.success),
+      projectContext
+    };
+
+    const template = config.deliberation?.promptTemplate;
+    let prompt: string;
+    if (typeof template === 'function') {
+      prompt = template(context);
+    } else if (typeof template === 'string') {
+      prompt = renderTemplate(template, {
+        ...config.vars,
+        ...expert.vars,
+        task,
+        expert: expert.name,
+        round,
+        context: projectContext ?? '',
+        own: context.own?.success ? truncateText(context.own.text, maxOpinionLength, locale) : '',
+        others: formatExpertOpinions(context.others, maxOpinionLength, locale).trimEnd()
+      }, config.partials, locale);
+    } else {
+      prompt = DEFAULT_DELIBERATION_PROMPT_TEMPLATE(context, maxOpinionLength, locale);
     }
 
-    return result;
-  });
+    // Новый вызов opencode не помнит прошлый раунд, поэтому контекст проекта передаётся снова
+    prompt = appendAnswerLanguage(appendProjectContext(prompt, projectContext, locale), config);
 
-  return Promise.all(promises);
+    return callExpert(expert, prompt, task, round, config, listeners, signal);
+  }));
 }
 
 /**
@@ -321,57 +525,46 @@ export async function callExpertsParallel(
 export async function callChair(
   expertResults: AgentResult[],
   task: string,
-  config: ConsiliumConfig
+  config: ConsiliumConfig,
+  listeners: AgentListeners = {},
+  signal?: AbortSignal,
+  context?: string,
+  projectContext?: string
 ): Promise<AgentResult> {
   // Формируем промпт
-  let prompt: string;
+  let prompt = buildChairPrompt(expertResults, task, config, projectContext);
 
-  if (config.chair.promptTemplate) {
-    prompt = config.chair.promptTemplate(task, expertResults);
-  } else {
-    prompt = DEFAULT_CHAIR_PROMPT_TEMPLATE(task, expertResults);
+  // Дополнительный контекст, например итоги голосования
+  if (context) {
+    prompt += `\n\n${context}`;
   }
 
   // Вызываем хук начала председателя
   if (config.hooks?.onChairStart) {
     await config.hooks.onChairStart(task, expertResults);
   }
+  listeners.onStart?.(config.chair.agent);
 
   const result = await callAgent(config.chair.agent, prompt, config, {
     timeout: config.chair.timeout || config.timeouts.chair,
     retries: config.retry.chairRetries,
-    isChair: true
+    isChair: true,
+    invocation: config.chair.invocation ?? config.invocation,
+    model: config.chair.model,
+    onChunk: listeners.onChunk,
+    signal,
+    outputSchema: config.chair.outputSchema
   });
 
   // Вызываем хук окончания председателя
   if (config.hooks?.onChairEnd) {
     await config.hooks.onChairEnd(result);
   }
+  listeners.onEnd?.(result);
 
   return result;
 }
 
-/**
- * Проверяет доступность OpenCode CLI
- */
-export async function checkOpenCodeAvailable(): Promise<boolean> {
-  return new Promise((resolve) => {
-    const child = spawn('opencode', ['--version'], {
-      stdio: 'ignore',
-      windowsHide: true,
-      shell: process.platform === 'win32'
-    });
-
-    child.on('close', (code) => {
-      resolve(code === 0);
-    });
-
-    child.on('error', () => {
-      resolve(false);
-    });
-  });
-}
-
 /**
  * Получает список доступных агентов из opencode.json
  */
@@ -0,0 +1,200 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { spawn } from 'node:child_process';
+import { once } from 'node:events';
+import { mkdtempSync, writeFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { 
+  createMockBackend,
+  createOpenCodeBackend,
+  createJsonStreamParser,
+  isBackendName,
+  resolveBackend,
+  terminateProcess
+} from './backends.js';
+import { DEFAULT_CONFIG } from './defaults.js';
+
+const invokeOptions = { timeout: 1000, attempt: 0, isChair: false };
+
+describe('backends.ts', () => {
+  describe('createMockBackend', () => {
+    it('должен возвращать ответ по имени агента', async () => {
+      const backend = createMockBackend({ responses: { arch: 'Ответ архитектора' } });
+      const result = await backend.invoke('arch', 'Задача', invokeOptions);
+      
+      assert.strictEqual(result.success, true);
+      assert.strictEqual(result.text, 'Ответ архитектора');
+      assert.strictEqual(result.agent, 'arch');
+    });
+
+    it('должен расходовать сценарий ответов по одному на вызов', async () => {
+      const backend = createMockBackend({
+        responses: { arch: [{ text: '[Таймаут arch]', success: false, errorCode: 'TIMEOUT' }, 'Второй'] }
+      });
+      
+      const first = await backend.invoke('arch', 'Задача', invokeOptions);
+      const second = await backend.invoke('arch', 'Задача', invokeOptions);
+      const third = await backend.invoke('arch', 'Задача', invokeOptions);
+      
+      assert.strictEqual(first.success, false);
+      assert.strictEqual(first.errorCode, 'TIMEOUT');
+      assert.strictEqual(second.text, 'Второй');
+      assert.strictEqual(third.text, 'Второй');
+    });
+
+    it('должен вызывать функцию-ответ с промптом', async () => {
+      const backend = createMockBackend({ responses: { ux: (prompt) => `echo: ${prompt}` } });
+      const result = await backend.invoke('ux', 'Задача', invokeOptions);
+      
+      assert.strictEqual(result.text, 'echo: Задача');
+    });
+
+    it('должен возвращать TIMEOUT если задержка больше таймаута', async () => {
+      const backend = createMockBackend({ responses: { sec: { text: 'Поздно', delay: 50 } } });
+      const result = await backend.invoke('sec', 'Задача', { ...invokeOptions, timeout: 10 });
+      
+      assert.strictEqual(result.success, false);
+      assert.strictEqual(result.errorCode, 'TIMEOUT');
+      assert.strictEqual(result.text, '[Таймаут sec]');
+    });
+
+    it('должен писать тексты-заглушки на языке locale', async () => {
+      const backend = createMockBackend({ responses: { sec: { text: 'Поздно', delay: 50 } } });
+      const timedOut = await backend.invoke('sec', 'Задача', { ...invokeOptions, timeout: 10, locale: 'en' });
+      const cancelled = await backend.invoke('sec', 'Задача', { ...invokeOptions, signal: AbortSignal.abort(), locale: 'zh' });
+
+      assert.strictEqual(timedOut.text, '[Timeout sec]');
+      assert.strictEqual(cancelled.text, '[已取消]');
+    });
+
+    it('должен генерировать ответ для агента без сценария', async () => {
+      const backend = createMockBackend();
+      const result = await backend.invoke('ba', 'Задача', invokeOptions);
+      
+      assert.strictEqual(result.success, true);
+      assert.ok(result.text.includes('ba'));
+    });
+  });
+
+  describe('createJsonStreamParser', () => {
+    it('должен выдавать текст по мере поступления завершённых строк', () => {
+      const chunks = [];
+      const parser = createJsonStreamParser(text => chunks.push(text));
+      
+      parser.push('{"type":"text","part":{"text":"Hel');
+      assert.deepStrictEqual(chunks, []);
+      
+      parser.push('lo"}}\n{"type":"step"}\n{"type":"text","part":{"text":" world"}}');
+      assert.deepStrictEqual(chunks, ['Hello']);
+      
+      parser.flush();
+      assert.deepStrictEqual(chunks, ['Hello', ' world']);
+    });
+  });
+
+  describe('createOpenCodeBackend', () => {
+    it('должен возвращать ID сессии и журнал событий', { skip: process.platform === 'win32' }, async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'consilium-'));
+      const script = join(dir, 'opencode');
+      const events = [
+        { type: 'tool_use', sessionID: 'ses_42', part: { tool: 'read', state: { status: 'completed' } } },
+        { type: 'text', sessionID: 'ses_42', part: { text: 'Готово' } }
+      ];
+      writeFileSync(script, `#!${process.execPath}\n${events.map(e => `console.log('${JSON.stringify(e)}');`).join('\n')}\n`, { mode: 0o755 });
+
+      try {
+        const backend = createOpenCodeBackend({ opencodePath: script });
+        const plain = await backend.invoke('arch', 'Задача', invokeOptions);
+        const full = await backend.invoke('arch', 'Задача', { ...invokeOptions, attempt: 1, transcript: true });
+
+        assert.strictEqual(plain.text, 'Готово');
+        assert.strictEqual(plain.sessionId, 'ses_42');
+        assert.strictEqual(plain.transcript, undefined);
+        assert.deepStrictEqual(full.transcript.map(e => [e.type, e.attempt]), [['tool', 1], ['text', 1]]);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('должен классифицировать ошибки по stderr и событиям error, а не по остальному stdout', { skip: process.platform === 'win32' }, async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'consilium-'));
+      const writeScript = (name, events) => {
+        const script = join(dir, name);
+        writeFileSync(script, `#!${process.execPath}\n${events.map(e => `console.log('${JSON.stringify(e)}');`).join('\n')}\n`, { mode: 0o755 });
+        return script;
+      };
+      const toolEvent = { type: 'tool_use', part: { tool: 'read', state: { status: 'completed', output: 'HTTP 429: rate limit, retry after 30s' } } };
+      const errorEvent = { type: 'error', error: { name: 'APIError', data: { message: 'Too Many Requests', statusCode: 429 } } };
+
+      try {
+        const quiet = await createOpenCodeBackend({ opencodePath: writeScript('quiet', [toolEvent]) })
+          .invoke('arch', 'Задача', invokeOptions);
+        const limited = await createOpenCodeBackend({ opencodePath: writeScript('limited', [toolEvent, errorEvent]) })
+          .invoke('arch', 'Задача', invokeOptions);
+
+        assert.strictEqual(quiet.errorCode, 'EMPTY_RESPONSE');
+        assert.strictEqual(quiet.retryAfter, undefined);
+        assert.strictEqual(limited.errorCode, 'RATE_LIMIT');
+        assert.strictEqual(limited.retryAfter, undefined);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('terminateProcess', () => {
+    /**
+     * Запускает node-процесс и ждёт, пока он установит обработчики сигналов
+     */
+    async function spawnReadyChild(script) {
+      const child = spawn(process.execPath, ['-e', `${script}; console.log('ready'); setInterval(() => {}, 1000);`], {
+        stdio: ['ignore', 'pipe', 'ignore'],
+        detached: process.platform !== 'win32'
+      });
+      await once(child.stdout, 'data');
+      return child;
+    }
+
+    it('должен завершать процесс через SIGTERM', async () => {
+      const child = await spawnReadyChild('');
+      const exited = once(child, 'exit');
+      
+      await terminateProcess(child, 2000);
+      const [, signal] = await exited;
+      
+      assert.strictEqual(signal, 'SIGTERM');
+    });
+
+    it('должен эскалировать до SIGKILL если процесс игнорирует SIGTERM', async () => {
+      const child = await spawnReadyChild("process.on('SIGTERM', () => {})");
+      const exited = once(child, 'exit');
+      
+      await terminateProcess(child, 100);
+      const [, signal] = await exited;
+      
+      assert.strictEqual(signal, 'SIGKILL');
+    });
+  });
+
+  describe('resolveBackend', () => {
+    it('должен использовать opencode по умолчанию', () => {
+      assert.strictEqual(resolveBackend({ ...DEFAULT_CONFIG }).name, 'opencode');
+    });
+
+    it('должен возвращать один экземпляр для одного конфига', () => {
+      const config = { ...DEFAULT_CONFIG, backend: 'mock' };
+      
+      assert.strictEqual(resolveBackend(config), resolveBackend(config));
+    });
+
+    it('должен выбрасывать ошибку для неизвестного бэкенда', () => {
+      assert.throws(() => resolveBackend({ ...DEFAULT_CONFIG, backend: 'unknown' }));
+    });
+
+    it('должен распознавать имена встроенных бэкендов', () => {
+      assert.strictEqual(isBackendName('mock'), true);
+      assert.strictEqual(isBackendName('foo'), false);
+    });
+  });
+});
@@ -0,0 +1,577 @@
+/**
+ * @fileoverview Бэкенды вызова агентов (OpenCode CLI, mock)
+ * @module opencode-consilium
+ */
+
+import { spawn, ChildProcess } from 'child_process';
+import { readFileSync } from 'fs';
+import { resolve as resolvePath } from 'path';
+import type {
+  AgentBackend,
+  AgentInvokeOptions,
+  AgentResult,
+  ConsiliumConfig,
+  Locale,
+  MockBackendOptions,
+  MockReply,
+  MockResponse
+} from './types.js';
+import { buildRunArgs } from './invocation.js';
+import { classifyAgentError } from './errors.js';
+import { parseJsonUsage } from './usage.js';
+import { extractErrorEvents, extractSessionId, parseTranscript } from './transcript.js';
+import { getMessages, resolveLocale } from './i18n.js';
+
+/**
+ * Результат отменённого вызова
+ */
+function createCancelledResult(agent: string, attempt: number, locale?: Locale): AgentResult {
+  return {
+    agent,
+    text: getMessages(locale).results.cancelled,
+    success: false,
+    errorCode: 'CANCELLED',
+    attempt
+  };
+}
+
+/**
+ * Ожидание, прерываемое через AbortSignal
+ *
+ * Возвращает false, если ожидание прервано.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<boolean> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve(false);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      resolve(false);
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve(true);
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Извлекает текст из одной строки JSON-событий OpenCode
+ */
+function extractEventText(line: string): string | null {
+  const trimmed = line.trim();
+  if (!trimmed) return null;
+
+  try {
+    const event = JSON.parse(trimmed);
+    if (event.type === 'text' && event.part?.text) {
+      return event.part.text;
+    }
+  } catch {
+    // Игнорируем не-JSON строки
+  }
+
+  return null;
+}
+
+/**
+ * Парсит JSON-вывод OpenCode CLI
+ */
+export function parseJsonOutput(output: string): string {
+  const lines = output.trim().split('\n');
+  const textParts: string[] = [];
+
+  for (const line of lines) {
+    const text = extractEventText(line);
+    if (text) {
+      textParts.push(text);
+    }
+  }
+
+  return textParts.join('');
+}
+
+/**
+ * Создаёт инкрементальный парсер JSON-вывода OpenCode CLI
+ *
+ * Принимает произвольные куски stdout и вызывает onText для каждой
+ * завершённой строки с текстовым событием.
+ */
+export function createJsonStreamParser(onText: (text: string) => void): {
+  push: (data: string) => void;
+  flush: () => void;
+} {
+  let buffer = '';
+
+  const emit = (line: string) => {
+    const text = extractEventText(line);
+    if (text) {
+      onText(text);
+    }
+  };
+
+  return {
+    push(data: string): void {
+      buffer += data;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        emit(line);
+      }
+    },
+    flush(): void {
+      emit(buffer);
+      buffer = '';
+    }
+  };
+}
+
+/**
+ * Отправляет сигнал процессу вместе с его группой
+ */
+function signalProcessTree(child: ChildProcess, signal: NodeJS.Signals): void {
+  try {
+    if (process.platform === 'win32') {
+      if (signal === 'SIGKILL' && child.pid) {
+        // shell: true — убиваем дерево процессов, а не только cmd.exe
+        spawn('taskkill', ['/pid', String(child.pid), '/T', '/F'], { stdio: 'ignore', windowsHide: true });
+      } else {
+        child.kill(signal);
+      }
+    } else if (child.pid) {
+      // Процесс запущен с detached, отрицательный pid адресует всю группу
+      process.kill(-child.pid, signal);
+    }
+  } catch {
+    try {
+      child.kill(signal);
+    } catch {
+      // Процесс уже завершён
+    }
+  }
+}
+
+/**
+ * Запущенные процессы — только для страховочной очистки при выходе из Node
+ */
+const liveProcesses: Set<ChildProcess> = new Set();
+
+/**
+ * Регистрирует процесс для очистки при выходе
+ */
+function trackProcess(child: ChildProcess): void {
+  if (liveProcesses.size === 0) {
+    process.once('exit', killLiveProcesses);
+  }
+  liveProcesses.add(child);
+
+  const untrack = () => {
+    liveProcesses.delete(child);
+    if (liveProcesses.size === 0) {
+      process.off('exit', killLiveProcesses);
+    }
+  };
+  child.once('exit', untrack);
+  child.once('error', untrack);
+}
+
+/**
+ * Убивает оставшиеся группы процессов при выходе (detached-потомки иначе осиротеют)
+ */
+function killLiveProcesses(): void {
+  for (const child of liveProcesses) {
+    signalProcessTree(child, 'SIGKILL');
+  }
+  liveProcesses.clear();
+}
+
+/**
+ * Завершает процесс: SIGTERM, ожидание до graceMs, затем SIGKILL
+ */
+export function terminateProcess(child: ChildProcess, graceMs: number): Promise<void> {
+  return new Promise((resolve) => {
+    if (child.exitCode !== null || child.signalCode !== null) {
+      resolve();
+      return;
+    }
+
+    const onExit = () => {
+      clearTimeout(killTimer);
+      resolve();
+    };
+
+    const killTimer = setTimeout(() => {
+      child.off('exit', onExit);
+      signalProcessTree(child, 'SIGKILL');
+      resolve();
+    }, graceMs);
+
+    child.once('exit', onExit);
+    signalProcessTree(child, 'SIGTERM');
+  });
+}
+
+/**
+ * Параметры запуска процесса opencode
+ */
+interface SpawnSettings {
+  /** Путь к opencode CLI */
+  command: string;
+  /** Аргументы командной строки */
+  args: string[];
+  /** Рабочая директория */
+  cwd: string;
+  /** Переменные окружения */
+  env: NodeJS.ProcessEnv;
+  /** Обработчик фрагментов текста */
+  onChunk?: (text: string) => void;
+  /** Сигнал отмены */
+  signal?: AbortSignal;
+  /** Время на graceful shutdown перед SIGKILL (мс) */
+  shutdownTimeout: number;
+  /** Модель для учёта расхода */
+  model?: string;
+  /** Сохранить журнал событий */
+  transcript?: boolean;
+  /** Язык текстов-заглушек результата */
+  locale?: Locale;
+}
+
+/**
+ * Возвращает путь к opencode CLI из конфига
+ */
+function resolveOpenCodePath(config?: Pick<ConsiliumConfig, 'opencodePath'>): string {
+  return config?.opencodePath || 'opencode';
+}
+
+/**
+ * Вычисляет рабочую директорию с учётом переопределения
+ */
+export function resolveCwd(config?: Pick<ConsiliumConfig, 'cwd'>, override?: string): string {
+  const base = resolvePath(process.cwd(), config?.cwd ?? '.');
+  return override ? resolvePath(base, override) : base;
+}
+
+/**
+ * Выполняет один вызов opencode
+ */
+async function spawnOpenCode(
+  agentName: string,
+  settings: SpawnSettings,
+  timeoutMs: number,
+  attempt: number
+): Promise<AgentResult> {
+  return new Promise((resolve) => {
+    if (settings.signal?.aborted) {
+      resolve(createCancelledResult(agentName, attempt, settings.locale));
+      return;
+    }
+
+    const child = spawn(settings.command, settings.args, {
+      cwd: settings.cwd,
+      env: settings.env,
+      stdio: ['ignore', 'pipe', 'pipe'],
+      windowsHide: true,
+      shell: process.platform === 'win32',
+      // Отдельная группа процессов, чтобы при остановке убить и потомков opencode
+      detached: process.platform !== 'win32'
+    });
+
+    trackProcess(child);
+
+    let stdout = '';
+    let stderr = '';
+    let finished = false;
+    let stopping = false;
+
+    const streamParser = createJsonStreamParser((text) => {
+      if (!finished && !stopping) {
+        settings.onChunk?.(text);
+      }
+    });
+
+    const finish = (result: AgentResult) => {
+      if (finished) return;
+      finished = true;
+      clearTimeout(timeoutId);
+      settings.signal?.removeEventListener('abort', onAbort);
+
+      // Журнал нужен и после таймаута или отмены — для разбора, что успел сделать агент
+      const sessionId = extractSessionId(stdout);
+      if (sessionId) {
+        result.sessionId = sessionId;
+      }
+      if (settings.transcript) {
+        result.transcript = parseTranscript(stdout, settings.locale).map(event => ({ ...event, attempt }));
+      }
+      resolve(result);
+    };
+
+    // Останавливает процесс и завершает вызов после его выхода
+    const stop = (result: AgentResult) => {
+      if (finished || stopping) return;
+      stopping = true;
+      clearTimeout(timeoutId);
+      terminateProcess(child, settings.shutdownTimeout).then(() => finish(result));
+    };
+
+    const onAbort = () => {
+      stop(createCancelledResult(agentName, attempt, settings.locale));
+    };
+
+    const timeoutId = setTimeout(() => {
+      stop({
+        agent: agentName,
+        text: getMessages(settings.locale).results.timeout(agentName),
+        success: false,
+        errorCode: 'TIMEOUT',
+        attempt
+      });
+    }, timeoutMs);
+
+    settings.signal?.addEventListener('abort', onAbort, { once: true });
+
+    child.stdout.setEncoding('utf-8');
+    child.stdout.on('data', (data: string) => {
+      stdout += data;
+      streamParser.push(data);
+    });
+
+    child.stderr.on('data', (data: Buffer) => {
+      stderr += data.toString();
+    });
+
+    child.on('close', () => {
+      if (finished || stopping) return;
+      streamParser.flush();
+
+      const text = parseJsonOutput(stdout);
+      const usage = parseJsonUsage(stdout, settings.model);
+
+      if (!text) {
+        const errorDetails = stderr ? ` stderr: ${stderr.substring(0, 500)}` : '';
+        // Ошибки провайдера приходят в stderr или событиями error в stdout;
+        // остальной stdout (вывод инструментов, рассуждения) не классифицируется
+        const classified = classifyAgentError([stderr, ...extractErrorEvents(stdout)].join('\n'));
+        finish({
+          agent: agentName,
+          text: `${getMessages(settings.locale).results.emptyResponse(agentName)}${errorDetails}`,
+          success: false,
+          errorCode: classified?.errorCode ?? 'EMPTY_RESPONSE',
+          retryAfter: classified?.retryAfter,
+          usage,
+          attempt
+        });
+        return;
+      }
+
+      finish({
+        agent: agentName,
+        text,
+        success: true,
+        usage,
+        attempt
+      });
+    });
+
+    child.on('error', (err: Error) => {
+      if (stopping) return;
+      finish({
+        agent: agentName,
+        text: getMessages(settings.locale).results.spawnError(err.message),
+        success: false,
+        errorCode: 'SPAWN_ERROR',
+        attempt
+      });
+    });
+  });
+}
+
+/**
+ * Проверяет доступность OpenCode CLI
+ */
+export async function checkOpenCodeAvailable(
+  config?: Pick<ConsiliumConfig, 'opencodePath' | 'cwd'>
+): Promise<boolean> {
+  return new Promise((resolve) => {
+    const child = spawn(resolveOpenCodePath(config), ['--version'], {
+      cwd: resolveCwd(config),
+      stdio: 'ignore',
+      windowsHide: true,
+      shell: process.platform === 'win32'
+    });
+
+    child.on('close', (code) => {
+      resolve(code === 0);
+    });
+
+    child.on('error', () => {
+      resolve(false);
+    });
+  });
+}
+
+/**
+ * Создаёт бэкенд OpenCode CLI
+ */
+export function createOpenCodeBackend(
+  config: Pick<ConsiliumConfig, 'opencodePath' | 'opencodeArgs' | 'cwd'> & Partial<Pick<ConsiliumConfig, 'timeouts'>>
+): AgentBackend {
+  return {
+    name: 'opencode',
+
+    invoke(agent: string, prompt: string, options: AgentInvokeOptions): Promise<AgentResult> {
+      const extraArgs = [...(config.opencodeArgs || []), ...(options.args || [])];
+
+      return spawnOpenCode(agent, {
+        command: resolveOpenCodePath(config),
+        args: buildRunArgs({ agent, prompt, model: options.model }, options.invocation, extraArgs),
+        cwd: resolveCwd(config, options.cwd),
+        env: { ...process.env, ...options.env },
+        onChunk: options.onChunk,
+        signal: options.signal,
+        shutdownTimeout: config.timeouts?.shutdown ?? 5000,
+        model: options.model,
+        transcript: options.transcript,
+        locale: options.locale
+      }, options.timeout, options.attempt);
+    },
+
+    isAvailable(): Promise<boolean> {
+      return checkOpenCodeAvailable(config);
+    }
+  };
+}
+
+/**
+ * Загружает ответы mock-бэкенда из JSON-фикстуры
+ */
+function loadMockFixture(fixturePath: string): Record<string, MockResponse | MockResponse[]> {
+  const content = readFileSync(resolvePath(process.cwd(), fixturePath), 'utf-8');
+  const fixture = JSON.parse(content) as { responses?: Record<string, MockResponse | MockResponse[]> };
+  return fixture.responses ?? {};
+}
+
+/**
+ * Создаёт mock-бэкенд со сценарием ответов
+ *
+ * Ответ агента задаётся строкой, частичным AgentResult или функцией.
+ * Массив ответов расходуется по одному на вызов, последний повторяется.
+ */
+export function createMockBackend(options: MockBackendOptions = {}): AgentBackend {
+  const responses = {
+    ...(options.fixture ? loadMockFixture(options.fixture) : {}),
+    ...options.responses
+  };
+  const callCounts = new Map<string, number>();
+
+  const pickResponse = (agent: string): MockResponse | undefined => {
+    const scripted = responses[agent];
+    const count = callCounts.get(agent) ?? 0;
+    callCounts.set(agent, count + 1);
+
+    if (Array.isArray(scripted)) {
+      return scripted[Math.min(count, scripted.length - 1)];
+    }
+    return scripted;
+  };
+
+  return {
+    name: 'mock',
+
+    async invoke(agent: string, prompt: string, invokeOptions: AgentInvokeOptions): Promise<AgentResult> {
+      const response = pickResponse(agent);
+      const resolved = typeof response === 'function'
+        ? await response(prompt, invokeOptions)
+        : response;
+      const { delay = options.delay ?? 0, ...reply }: MockReply = typeof resolved === 'string'
+        ? { text: resolved }
+        : resolved ?? { text: `[mock ${agent}] ${prompt.substring(0, 200)}` };
+
+      if (delay > invokeOptions.timeout) {
+        if (!(await sleep(invokeOptions.timeout, invokeOptions.signal))) {
+          return createCancelledResult(agent, invokeOptions.attempt, invokeOptions.locale);
+        }
+        return {
+          agent,
+          text: getMessages(invokeOptions.locale).results.timeout(agent),
+          success: false,
+          errorCode: 'TIMEOUT',
+          attempt: invokeOptions.attempt
+        };
+      }
+      if (!(await sleep(delay, invokeOptions.signal))) {
+        return createCancelledResult(agent, invokeOptions.attempt, invokeOptions.locale);
+      }
+
+      if (reply.success !== false && reply.text) {
+        invokeOptions.onChunk?.(reply.text);
+      }
+
+      return {
+        agent,
+        text: '',
+        success: true,
+        ...reply,
+        attempt: invokeOptions.attempt
+      };
+    },
+
+    async isAvailable(): Promise<boolean> {
+      return true;
+    }
+  };
+}
+
+/**
+ * Встроенные бэкенды агентов
+ */
+export const BACKEND_NAMES: readonly string[] = ['opencode', 'mock'];
+
+/**
+ * Проверяет, является ли значение именем встроенного бэкенда
+ */
+export function isBackendName(value: unknown): value is 'opencode' | 'mock' {
+  return typeof value === 'string' && BACKEND_NAMES.includes(value);
+}
+
+/**
+ * Кэш бэкендов, созданных по имени из конфига
+ */
+const backendCache: WeakMap<ConsiliumConfig, AgentBackend> = new WeakMap();
+
+/**
+ * Возвращает бэкенд для конфигурации
+ */
+export function resolveBackend(config: ConsiliumConfig): AgentBackend {
+  const { backend } = config;
+
+  if (backend && typeof backend === 'object') {
+    return backend;
+  }
+
+  const cached = backendCache.get(config);
+  if (cached && cached.name === (backend ?? 'opencode')) {
+    return cached;
+  }
+
+  let created: AgentBackend;
+  switch (backend ?? 'opencode') {
+    case 'opencode':
+      created = createOpenCodeBackend(config);
+      break;
+    case 'mock':
+      created = createMockBackend(config.mock);
+      break;
+    default:
+      throw new Error(getMessages(resolveLocale(config)).errors.unknownBackend(String(backend)));
+  }
+
+  backendCache.set(config, created);
+  return created;
+}
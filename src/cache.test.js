@@ -0,0 +1,102 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  computeCacheKey,
+  readCacheEntry,
+  writeCacheEntry,
+  listCacheEntries,
+  clearCache
+} from './cache.js';
+
+describe('cache.ts', () => {
+  let dir;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'consilium-cache-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('computeCacheKey', () => {
+    const parts = { agent: 'arch', prompt: 'Задача', backend: 'opencode' };
+
+    it('должен зависеть от агента, модели и промпта', () => {
+      const key = computeCacheKey(parts);
+
+      assert.match(key, /^[0-9a-f]{64}$/);
+      assert.strictEqual(computeCacheKey({ ...parts }), key);
+      assert.notStrictEqual(computeCacheKey({ ...parts, model: 'openrouter/free' }), key);
+      assert.notStrictEqual(computeCacheKey({ ...parts, prompt: 'Другая задача' }), key);
+      assert.notStrictEqual(computeCacheKey({ ...parts, agent: 'sec' }), key);
+    });
+
+    it('должен зависеть от определения агента и журнала событий', () => {
+      const key = computeCacheKey(parts);
+
+      assert.notStrictEqual(computeCacheKey({ ...parts, agentDefinition: { prompt: 'Ты архитектор' } }), key);
+      assert.notStrictEqual(
+        computeCacheKey({ ...parts, agentDefinition: { prompt: 'Ты архитектор' } }),
+        computeCacheKey({ ...parts, agentDefinition: { prompt: 'Ты аналитик' } })
+      );
+      assert.notStrictEqual(computeCacheKey({ ...parts, transcript: true }), key);
+      assert.strictEqual(computeCacheKey({ ...parts, transcript: false }), key);
+    });
+
+    it('должен зависеть от рабочей директории, окружения и запуска opencode', () => {
+      const key = computeCacheKey(parts);
+
+      assert.notStrictEqual(computeCacheKey({ ...parts, cwd: '/repo/a' }), computeCacheKey({ ...parts, cwd: '/repo/b' }));
+      assert.notStrictEqual(computeCacheKey({ ...parts, env: { NODE_ENV: 'test' } }), key);
+      assert.strictEqual(
+        computeCacheKey({ ...parts, env: { A: '1', B: '2' } }),
+        computeCacheKey({ ...parts, env: { B: '2', A: '1' } })
+      );
+      assert.notStrictEqual(computeCacheKey({ ...parts, opencodePath: '/opt/opencode' }), key);
+      assert.notStrictEqual(computeCacheKey({ ...parts, opencodeArgs: ['--print-logs'] }), key);
+    });
+  });
+
+  describe('readCacheEntry', () => {
+    it('должен возвращать сохранённый ответ', () => {
+      const cache = { dir };
+      writeCacheEntry(cache, 'k1', { agent: 'arch', text: 'Ответ', success: true }, 'openrouter/free');
+
+      const entry = readCacheEntry(cache, 'k1');
+      assert.strictEqual(entry.result.text, 'Ответ');
+      assert.strictEqual(entry.model, 'openrouter/free');
+      assert.strictEqual(readCacheEntry(cache, 'k2'), null);
+    });
+
+    it('должен считать устаревшие и повреждённые записи промахом', () => {
+      writeCacheEntry({ dir }, 'k1', { agent: 'arch', text: 'Ответ', success: true });
+      writeFileSync(join(dir, 'broken.json'), '{', 'utf-8');
+
+      assert.strictEqual(readCacheEntry({ dir, ttl: -1 }, 'k1'), null);
+      assert.strictEqual(readCacheEntry({ dir }, 'broken'), null);
+    });
+  });
+
+  describe('listCacheEntries / clearCache', () => {
+    it('должен перечислять и удалять записи', () => {
+      const cache = { dir };
+      writeCacheEntry(cache, 'k1', { agent: 'arch', text: 'A', success: true });
+      writeCacheEntry(cache, 'k2', { agent: 'sec', text: 'B', success: true });
+
+      const entries = listCacheEntries(cache);
+      assert.deepStrictEqual(entries.map(e => e.agent).sort(), ['arch', 'sec']);
+      assert.ok(entries.every(e => !e.expired && e.size > 0));
+
+      assert.strictEqual(clearCache(cache), 2);
+      assert.deepStrictEqual(listCacheEntries(cache), []);
+    });
+
+    it('должен возвращать пустой список для отсутствующей директории', () => {
+      assert.deepStrictEqual(listCacheEntries({ dir: join(dir, 'missing') }), []);
+    });
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * @fileoverview Дисковый кэш ответов агентов с адресацией по содержимому
+ * @module opencode-consilium
+ */
+
+import { createHash } from 'crypto';
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  statSync,
+  unlinkSync,
+  writeFileSync
+} from 'fs';
+import { join, resolve } from 'path';
+import type {
+  AgentResult,
+  CacheConfig,
+  CacheEntry,
+  ConsiliumConfig,
+  OpenCodeAgentDefinition,
+  OutputSchema
+} from './types.js';
+
+/**
+ * Директория кэша по умолчанию
+ */
+export const DEFAULT_CACHE_DIR = '.consilium/cache';
+
+/**
+ * Время жизни записи по умолчанию — сутки
+ */
+export const DEFAULT_CACHE_TTL = 24 * 60 * 60 * 1000;
+
+/**
+ * Всё, от чего зависит ответ агента
+ */
+export interface CacheKeyParts {
+  /** Имя агента */
+  agent: string;
+  /** Промпт без служебных добавок попытки */
+  prompt: string;
+  /** Модель агента: переопределение или модель из opencode.json */
+  model?: string;
+  /** Определение агента из opencode.json (промпт, настройки) */
+  agentDefinition?: OpenCodeAgentDefinition;
+  /** Имя бэкенда */
+  backend: string;
+  /** Режим вызова */
+  invocation?: string;
+  /** Схема структурированного ответа */
+  outputSchema?: OutputSchema;
+  /** Итоговая рабочая директория: cwd конфига с переопределением эксперта */
+  cwd?: string;
+  /** Переменные окружения вызова */
+  env?: Record<string, string>;
+  /** Путь к opencode CLI из конфига */
+  opencodePath?: string;
+  /** Аргументы opencode CLI из конфига */
+  opencodeArgs?: string[];
+  /** Дополнительные аргументы CLI эксперта */
+  args?: string[];
+  /** Сохраняется ли журнал событий */
+  transcript?: boolean;
+}
+
+/**
+ * Сведения о записи кэша для вывода
+ */
+export interface CacheEntryInfo {
+  /** Ключ записи */
+  key: string;
+  /** Имя агента */
+  agent: string;
+  /** Модель, если задана */
+  model?: string;
+  /** Время сохранения (мс с эпохи) */
+  createdAt: number;
+  /** Срок жизни истёк */
+  expired: boolean;
+  /** Размер файла (байт) */
+  size: number;
+}
+
+/**
+ * Возвращает настройки кэша или null, если кэш выключен
+ */
+export function getCacheConfig(config: Pick<ConsiliumConfig, 'cache'>): CacheConfig | null {
+  return config.cache ? config.cache : null;
+}
+
+/**
+ * Абсолютный путь к директории кэша
+ */
+export function resolveCacheDir(cache: CacheConfig = {}): string {
+  return resolve(process.cwd(), cache.dir ?? DEFAULT_CACHE_DIR);
+}
+
+/**
+ * Вычисляет ключ записи: sha256 от агента и его определения, модели, промпта и влияющих на ответ настроек
+ */
+export function computeCacheKey(parts: CacheKeyParts): string {
+  const normalized = {
+    agent: parts.agent,
+    model: parts.model ?? null,
+    agentDefinition: parts.agentDefinition ?? null,
+    backend: parts.backend,
+    invocation: parts.invocation ?? null,
+    cwd: parts.cwd ?? null,
+    // Порядок переменных окружения не влияет на ключ
+    env: Object.entries(parts.env ?? {}).sort(([a], [b]) => a.localeCompare(b)),
+    opencodePath: parts.opencodePath ?? null,
+    opencodeArgs: parts.opencodeArgs ?? [],
+    args: parts.args ?? [],
+    outputSchema: parts.outputSchema ?? null,
+    transcript: parts.transcript ?? false,
+    prompt: parts.prompt
+  };
+  return createHash('sha256').update(JSON.stringify(normalized)).digest('hex');
+}
+
+/**
+ * Путь к файлу записи
+ */
+function entryPath(cache: CacheConfig, key: string): string {
+  return join(resolveCacheDir(cache), `${key}.json`);
+}
+
+/**
+ * Проверяет, истёк ли срок записи
+ */
+function isExpired(entry: Pick<CacheEntry, 'createdAt'>, cache: CacheConfig): boolean {
+  return Date.now() - entry.createdAt > (cache.ttl ?? DEFAULT_CACHE_TTL);
+}
+
+/**
+ * Читает запись из кэша
+ *
+ * Повреждённая или просроченная запись считается промахом.
+ */
+export function readCacheEntry(cache: CacheConfig, key: string): CacheEntry | null {
+  const path = entryPath(cache, key);
+  if (!existsSync(path)) {
+    return null;
+  }
+
+  try {
+    const entry = JSON.parse(readFileSync(path, 'utf-8')) as CacheEntry;
+    if (entry.key !== key || !entry.result || isExpired(entry, cache)) {
+      return null;
+    }
+    return entry;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Сохраняет успешный ответ в кэш
+ *
+ * Кэш — оптимизация: ошибки записи не прерывают запуск.
+ */
+export function writeCacheEntry(cache: CacheConfig, key: string, result: AgentResult, model?: string): void {
+  const entry: CacheEntry = {
+    key,
+    agent: result.agent,
+    model,
+    createdAt: Date.now(),
+    result: { ...result, cached: undefined, cachedAt: undefined }
+  };
+
+  try {
+    mkdirSync(resolveCacheDir(cache), { recursive: true });
+    writeFileSync(entryPath(cache, key), JSON.stringify(entry), 'utf-8');
+  } catch {
+    // Нет прав или места — работаем без кэша
+  }
+}
+
+/**
+ * Перечисляет записи кэша, новые первыми
+ */
+export function listCacheEntries(cache: CacheConfig = {}): CacheEntryInfo[] {
+  const dir = resolveCacheDir(cache);
+  if (!existsSync(dir)) {
+    return [];
+  }
+
+  const entries: CacheEntryInfo[] = [];
+  for (const file of readdirSync(dir)) {
+    if (!file.endsWith('.json')) continue;
+
+    const path = join(dir, file);
+    try {
+      const entry = JSON.parse(readFileSync(path, 'utf-8')) as CacheEntry;
+      entries.push({
+        key: entry.key,
+        agent: entry.agent,
+        model: entry.model,
+        createdAt: entry.createdAt,
+        expired: isExpired(entry, cache),
+        size: statSync(path).size
+      });
+    } catch {
+      // Посторонние и повреждённые файлы пропускаем
+    }
+  }
+
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Удаляет записи кэша; возвращает число удалённых
+ */
+export function clearCache(cache: CacheConfig = {}, options: { expiredOnly?: boolean } = {}): number {
+  let removed = 0;
+  for (const entry of listCacheEntries(cache)) {
+    if (options.expiredOnly && !entry.expired) continue;
+    unlinkSync(entryPath(cache, entry.key));
+    removed++;
+  }
+  return removed;
+}
@@ -0,0 +1,568 @@
+/**
+ * @fileoverview Каталоги сообщений CLI
+ * @module opencode-consilium/cli
+ */
+
+import type { Locale } from './types.js';
+
+/**
+ * Сообщения CLI
+ */
+export interface CliMessages {
+  help: string;
+  listAgents: {
+    title: string;
+    experts: string;
+    disabled: string;
+    chair: string;
+    excluded: string;
+    panels: string;
+  };
+  init: {
+    exists: string;
+    existsHint: string;
+    created: (path: string) => string;
+    createdHint: string;
+  };
+  cache: {
+    empty: (dir: string) => string;
+    title: (dir: string) => string;
+    expired: string;
+    bytes: string;
+    total: (count: number) => string;
+    cleared: (count: number, dir: string) => string;
+  };
+  dryRun: {
+    title: string;
+    experts: string;
+    chair: string;
+    chairNote: string;
+  };
+  progress: {
+    round: (round: number) => string;
+    experts: string;
+    chair: string;
+    retry: (attempt: number) => string;
+  };
+  hooks: {
+    start: string;
+    cached: (chars: number) => string;
+    done: (seconds: string, chars: number) => string;
+    failed: (seconds: string) => string;
+    chairStart: string;
+    chairCached: (chars: number) => string;
+    chairDone: (seconds: string, chars: number) => string;
+    chairFailed: (seconds: string) => string;
+  };
+  result: {
+    title: string;
+    time: (seconds: string) => string;
+    experts: (answered: number, total: number) => string;
+    usage: string;
+    context: (files: number, truncated: boolean, skipped: string[]) => string;
+    vote: (winner: string | null) => string;
+    consensus: (percent: number, round: number, dissenters: string[]) => string;
+    fallback: (chair: string, failed: string) => string;
+    chairFailed: string;
+  };
+  main: {
+    opencodeMissing: (path: string) => string;
+    opencodeInstall: string;
+    backendUnavailable: (name: string) => string;
+    resuming: (file: string, pending: string[]) => string;
+    noTask: string;
+    noTaskExample: string;
+    unknownSynthesis: (strategy: string) => string;
+    unknownLocale: (locale: string) => string;
+    unknownPanel: (panel: string) => string;
+    unknownBackend: (backend: string) => string;
+    forceExit: string;
+    cancelling: string;
+    saved: (file: string) => string;
+    resumeHint: (file: string) => string;
+    error: string;
+    fatal: string;
+  };
+}
+
+const ru: CliMessages = {
+  help: `
+consilium - Консилиум ИИ-экспертов через OpenCode CLI
+
+ИСПОЛЬЗОВАНИЕ:
+  consilium [опции] <задача>
+  consilium --init
+  consilium --list-agents
+
+ОПЦИИ:
+  -h, --help              Показать эту справку
+  -v, --version           Показать версию
+  -V, --verbose           Подробный вывод
+  -s, --silent            Тихий режим (только результат)
+  --stream                Выводить ответы агентов по мере генерации
+  --lang <ru|en|zh>       Язык промптов, справки и вывода (по умолчанию из LANG)
+  --answer-lang <язык>    Язык ответов агентов: ru, en, zh или название языка
+
+  -c, --config <файл>     Путь к файлу конфигурации
+  -e, --experts <список>  Эксперты через запятую (arch,ux,ba,sec)
+  --panel <имя>           Панель экспертов: code-review, product-discovery, incident-postmortem
+  --chair <агент>         Агент-председатель
+  --synthesis <стратегия> Синтез: chair, concat, map-reduce, vote, multi-chair (по умолчанию: chair)
+  --rounds <N>            Раунды обсуждения: эксперты видят и оспаривают мнения друг друга (по умолчанию: 1)
+  --consensus <0..1>      Остановить обсуждение, когда согласие экспертов достигнет порога
+  --vote <варианты>       Взвешенное голосование экспертов за варианты через запятую (без председателя)
+
+  --expert-timeout <мс>   Таймаут для экспертов (по умолчанию: 300000)
+  --chair-timeout <мс>    Таймаут для председателя (по умолчанию: 600000)
+
+  -o, --output <файл>     Выходной файл (по умолчанию: consilium_result.txt)
+  -f, --format <формат>   Формат вывода: text, markdown, json
+  --file <путь>           Добавить файл в контекст экспертов (через запятую или несколько раз)
+  --glob <шаблон>         Добавить файлы по glob-шаблону, например "src/**/*.ts" (учитывает .gitignore)
+  --diff [база]           Добавить git diff относительно HEAD или указанной ветки
+  --stdin                 Добавить в контекст текст из stdin
+  --var <имя=значение>    Переменная для шаблонов промптов (можно несколько раз)
+  --cache                 Брать повторные ответы из кэша (.consilium/cache); они могут устареть
+  --no-cache              Не использовать кэш, даже если он включён в конфиге
+  --refresh-expert <имя>  Опросить эксперта заново, минуя кэш (можно через запятую или несколько раз)
+  --transcript            Сохранить журнал событий агентов (инструменты, рассуждения, ошибки); формат по умолчанию json
+  -l, --log-level <уровень> Уровень логирования: silent, error, warn, info, debug
+
+  -r, --retries <число>   Количество повторных попыток
+  --max-concurrency <N>   Максимум одновременно запущенных экспертов
+  --max-cost <USD>        Отменить запуск при превышении стоимости
+  --max-tokens <N>        Отменить запуск при превышении числа токенов
+  --backend <имя>         Бэкенд агентов: opencode, mock (по умолчанию: opencode)
+
+КОМАНДЫ:
+  --init                  Создать пример конфигурационного файла
+  --list-agents           Показать список доступных агентов
+  --dry-run               Показать сформированные промпты без вызова
+  --resume <файл>         Продолжить незавершённый консилиум (опросить недостающих экспертов и председателя)
+  cache ls                Показать записи кэша ответов
+  cache clear             Очистить кэш ответов
+
+ПРИМЕРЫ:
+  consilium "Оценить архитектуру проекта"
+  consilium -e arch,sec "Проверить безопасность API"
+  consilium --panel code-review --diff main "Ревью изменений"
+  consilium --config ./my-consilium.json "Задача"
+  consilium --lang en --answer-lang German "Review the API design"
+  consilium --init
+
+КОНФИГУРАЦИЯ:
+  Создайте файл consilium.config.json для постоянных настроек:
+
+  {
+    "experts": ["arch", "ux", "ba", "sec"],
+    "chair": "consilium",
+    "locale": "ru",
+    "timeouts": {
+      "expert": 300000,
+      "chair": 600000
+    }
+  }
+
+ДОКУМЕНТАЦИЯ:
+  https://github.com/LevapVeeskela/opencode-consilium
+`,
+  listAgents: {
+    title: '📋 Доступные агенты:',
+    experts: 'Эксперты:',
+    disabled: ' (отключен)',
+    chair: 'Председатель:',
+    excluded: 'Исключённые агенты:',
+    panels: 'Панели (--panel):'
+  },
+  init: {
+    exists: '❌ Файл consilium.config.json уже существует.',
+    existsHint: '   Удалите его или используйте другой путь.',
+    created: (path) => `✅ Создан файл ${path}`,
+    createdHint: '   Отредактируйте его под свои нужды.'
+  },
+  cache: {
+    empty: (dir) => `📭 Кэш пуст (${dir})`,
+    title: (dir) => `📦 Кэш ответов: ${dir}`,
+    expired: ' (устарела)',
+    bytes: 'Б',
+    total: (count) => `Всего записей: ${count}`,
+    cleared: (count, dir) => `🧹 Удалено записей: ${count} (${dir})`
+  },
+  dryRun: {
+    title: '🔍 DRY RUN - Промпты без вызова агентов',
+    experts: 'Эксперты:',
+    chair: '[ПРЕДСЕДАТЕЛЬ]',
+    chairNote: '(промпт будет сформирован после ответов экспертов)'
+  },
+  progress: {
+    round: (round) => `💬 Раунд обсуждения ${round}...`,
+    experts: '🔍 Опрос экспертов...',
+    chair: '🧠 Синтез председателя...',
+    retry: (attempt) => `↻ Повтор (попытка ${attempt})`
+  },
+  hooks: {
+    start: 'Запуск...',
+    cached: (chars) => `Из кэша (${chars} симв.)`,
+    done: (seconds, chars) => `Готово (${seconds}с, ${chars} симв.)`,
+    failed: (seconds) => `Ошибка (${seconds}с)`,
+    chairStart: 'Синтез запущен...',
+    chairCached: (chars) => `Синтез из кэша (${chars} симв.)`,
+    chairDone: (seconds, chars) => `Синтез завершён (${seconds}с, ${chars} симв.)`,
+    chairFailed: (seconds) => `Ошибка синтеза (${seconds}с)`
+  },
+  result: {
+    title: '📋 ИТОГОВЫЙ ПЛАН КОНСИЛИУМА',
+    time: (seconds) => `⏱️ Время: ${seconds}с`,
+    experts: (answered, total) => `📊 Экспертов: ${answered}/${total}`,
+    usage: '💰 Расход:',
+    context: (files, truncated, skipped) =>
+      `📎 Контекст: ${files} файлов${truncated ? ', обрезан' : ''}${skipped.length > 0 ? `, пропущено: ${skipped.join(', ')}` : ''}`,
+    vote: (winner) => `🗳️ Голосование: ${winner ?? 'решение не принято'}`,
+    consensus: (percent, round, dissenters) =>
+      `🤝 Согласие: ${percent}% после раунда ${round}${dissenters.length > 0 ? `, несогласные: ${dissenters.join(', ')}` : ''}`,
+    fallback: (chair, failed) => `↪️ Синтез: ${chair} (после отказа: ${failed})`,
+    chairFailed: '⚠️ Председатель: неуспешно'
+  },
+  main: {
+    opencodeMissing: (path) => `❌ OpenCode CLI не найден (${path}).`,
+    opencodeInstall: '   Установите: npm install -g opencode-cli',
+    backendUnavailable: (name) => `❌ Бэкенд агентов ${name} недоступен.`,
+    resuming: (file, pending) =>
+      `↩️ Продолжение ${file}: повторно опрашиваются ${pending.length > 0 ? pending.join(', ') : 'только председатель'}`,
+    noTask: '❌ Укажите задачу для консилиума.',
+    noTaskExample: '   Пример: consilium "Оценить архитектуру"',
+    unknownSynthesis: (strategy) => `❌ Неизвестная стратегия синтеза: ${strategy}`,
+    unknownLocale: (locale) => `❌ Неизвестный язык: ${locale}. Допустимо: ru, en, zh`,
+    unknownPanel: (panel) => `❌ Неизвестная панель экспертов: ${panel}. Список: consilium --list-agents`,
+    unknownBackend: (backend) => `❌ Неизвестный бэкенд агентов: ${backend}. Допустимо: opencode, mock`,
+    forceExit: '⏹️ Принудительный выход',
+    cancelling: '⏹️ Отмена... (повторите для немедленного выхода)',
+    saved: (file) => `💾 Сохранено: ${file}`,
+    resumeHint: (file) => `↩️ Продолжить: consilium --resume ${file}`,
+    error: '❌ Ошибка:',
+    fatal: '💥 Критическая ошибка:'
+  }
+};
+
+const en: CliMessages = {
+  help: `
+consilium - A consilium of AI experts via OpenCode CLI
+
+USAGE:
+  consilium [options] <task>
+  consilium --init
+  consilium --list-agents
+
+OPTIONS:
+  -h, --help              Show this help
+  -v, --version           Show version
+  -V, --verbose           Verbose output
+  -s, --silent            Silent mode (result only)
+  --stream                Print agent answers as they are generated
+  --lang <ru|en|zh>       Language of prompts, help and output (default: from LANG)
+  --answer-lang <lang>    Language of agent answers: ru, en, zh or a language name
+
+  -c, --config <file>     Path to config file
+  -e, --experts <list>    Experts comma-separated (arch,ux,ba,sec)
+  --panel <name>          Expert panel: code-review, product-discovery, incident-postmortem
+  --chair <agent>         Chair agent
+  --synthesis <strategy>  Synthesis: chair, concat, map-reduce, vote, multi-chair (default: chair)
+  --rounds <N>            Deliberation rounds: experts see and rebut each other (default: 1)
+  --consensus <0..1>      Stop deliberation once expert agreement reaches the threshold
+  --vote <options>        Weighted expert vote on comma-separated options (no chair)
+
+  --expert-timeout <ms>   Expert timeout (default: 300000)
+  --chair-timeout <ms>    Chair timeout (default: 600000)
+
+  -o, --output <file>     Output file (default: consilium_result.txt)
+  -f, --format <format>   Output format: text, markdown, json
+  --file <path>           Add a file to the experts' context (comma-separated or repeated)
+  --glob <pattern>        Add files matching a glob, e.g. "src/**/*.ts" (respects .gitignore)
+  --diff [base]           Add the git diff against HEAD or the given branch
+  --stdin                 Add text from stdin to the context
+  --var <name=value>      Template variable for prompts (repeatable)
+  --cache                 Reuse answers from the response cache (.consilium/cache); they may be stale
+  --no-cache              Do not use the cache even if the config enables it
+  --refresh-expert <name> Re-query an expert bypassing the cache (comma-separated or repeated)
+  --transcript            Keep the full agent event log (tools, reasoning, errors); defaults the format to json
+  -l, --log-level <level> Log level: silent, error, warn, info, debug
+
+  -r, --retries <num>     Number of retries
+  --max-concurrency <N>   Maximum experts running at once
+  --max-cost <USD>        Cancel the run once its cost exceeds the limit
+  --max-tokens <N>        Cancel the run once input + output tokens exceed the limit
+  --backend <name>        Agent backend: opencode, mock (default: opencode)
+
+COMMANDS:
+  --init                  Create example config file
+  --list-agents           Show list of available agents
+  --dry-run               Show prompts without calling agents
+  --resume <file>         Resume an unfinished consilium (missing experts and chair only)
+  cache ls                List response cache entries
+  cache clear             Clear the response cache
+
+EXAMPLES:
+  consilium "Evaluate the project architecture"
+  consilium -e arch,sec "Check API security"
+  consilium --panel code-review --diff main "Review the changes"
+  consilium --config ./my-consilium.json "Task"
+  consilium --lang en --answer-lang German "Review the API design"
+  consilium --init
+
+CONFIGURATION:
+  Create consilium.config.json for persistent settings:
+
+  {
+    "experts": ["arch", "ux", "ba", "sec"],
+    "chair": "consilium",
+    "locale": "en",
+    "timeouts": {
+      "expert": 300000,
+      "chair": 600000
+    }
+  }
+
+DOCUMENTATION:
+  https://github.com/LevapVeeskela/opencode-consilium
+`,
+  listAgents: {
+    title: '📋 Available agents:',
+    experts: 'Experts:',
+    disabled: ' (disabled)',
+    chair: 'Chair:',
+    excluded: 'Excluded agents:',
+    panels: 'Panels (--panel):'
+  },
+  init: {
+    exists: '❌ consilium.config.json already exists.',
+    existsHint: '   Remove it or use another path.',
+    created: (path) => `✅ Created ${path}`,
+    createdHint: '   Edit it to suit your needs.'
+  },
+  cache: {
+    empty: (dir) => `📭 Cache is empty (${dir})`,
+    title: (dir) => `📦 Response cache: ${dir}`,
+    expired: ' (expired)',
+    bytes: 'B',
+    total: (count) => `Total entries: ${count}`,
+    cleared: (count, dir) => `🧹 Entries removed: ${count} (${dir})`
+  },
+  dryRun: {
+    title: '🔍 DRY RUN - Prompts without calling agents',
+    experts: 'Experts:',
+    chair: '[CHAIR]',
+    chairNote: '(the prompt is built once the experts have answered)'
+  },
+  progress: {
+    round: (round) => `💬 Deliberation round ${round}...`,
+    experts: '🔍 Polling experts...',
+    chair: '🧠 Chair synthesis...',
+    retry: (attempt) => `↻ Retry (attempt ${attempt})`
+  },
+  hooks: {
+    start: 'Starting...',
+    cached: (chars) => `From cache (${chars} chars)`,
+    done: (seconds, chars) => `Done (${seconds}s, ${chars} chars)`,
+    failed: (seconds) => `Failed (${seconds}s)`,
+    chairStart: 'Synthesis started...',
+    chairCached: (chars) => `Synthesis from cache (${chars} chars)`,
+    chairDone: (seconds, chars) => `Synthesis finished (${seconds}s, ${chars} chars)`,
+    chairFailed: (seconds) => `Synthesis failed (${seconds}s)`
+  },
+  result: {
+    title: '📋 FINAL CONSILIUM PLAN',
+    time: (seconds) => `⏱️ Time: ${seconds}s`,
+    experts: (answered, total) => `📊 Experts: ${answered}/${total}`,
+    usage: '💰 Usage:',
+    context: (files, truncated, skipped) =>
+      `📎 Context: ${files} files${truncated ? ', truncated' : ''}${skipped.length > 0 ? `, skipped: ${skipped.join(', ')}` : ''}`,
+    vote: (winner) => `🗳️ Vote: ${winner ?? 'no decision'}`,
+    consensus: (percent, round, dissenters) =>
+      `🤝 Agreement: ${percent}% after round ${round}${dissenters.length > 0 ? `, dissenters: ${dissenters.join(', ')}` : ''}`,
+    fallback: (chair, failed) => `↪️ Synthesis: ${chair} (after failure of: ${failed})`,
+    chairFailed: '⚠️ Chair: unsuccessful'
+  },
+  main: {
+    opencodeMissing: (path) => `❌ OpenCode CLI not found (${path}).`,
+    opencodeInstall: '   Install: npm install -g opencode-cli',
+    backendUnavailable: (name) => `❌ Agent backend ${name} is unavailable.`,
+    resuming: (file, pending) =>
+      `↩️ Resuming ${file}: re-querying ${pending.length > 0 ? pending.join(', ') : 'the chair only'}`,
+    noTask: '❌ Specify a task for the consilium.',
+    noTaskExample: '   Example: consilium "Evaluate the architecture"',
+    unknownSynthesis: (strategy) => `❌ Unknown synthesis strategy: ${strategy}`,
+    unknownLocale: (locale) => `❌ Unknown language: ${locale}. Allowed: ru, en, zh`,
+    unknownPanel: (panel) => `❌ Unknown expert panel: ${panel}. See: consilium --list-agents`,
+    unknownBackend: (backend) => `❌ Unknown agent backend: ${backend}. Allowed: opencode, mock`,
+    forceExit: '⏹️ Forced exit',
+    cancelling: '⏹️ Cancelling... (repeat to exit immediately)',
+    saved: (file) => `💾 Saved: ${file}`,
+    resumeHint: (file) => `↩️ Resume: consilium --resume ${file}`,
+    error: '❌ Error:',
+    fatal: '💥 Fatal error:'
+  }
+};
+
+const zh: CliMessages = {
+  help: `
+consilium - 通过 OpenCode CLI 召开 AI 专家会诊
+
+用法:
+  consilium [选项] <任务>
+  consilium --init
+  consilium --list-agents
+
+选项:
+  -h, --help              显示帮助
+  -v, --version           显示版本
+  -V, --verbose           详细输出
+  -s, --silent            静默模式（仅输出结果）
+  --stream                实时输出智能体的回答
+  --lang <ru|en|zh>       提示词、帮助和输出的语言（默认取自 LANG）
+  --answer-lang <语言>    智能体回答的语言：ru、en、zh 或语言名称
+
+  -c, --config <文件>     配置文件路径
+  -e, --experts <列表>    专家列表逗号分隔 (arch,ux,ba,sec)
+  --panel <名称>          专家小组：code-review、product-discovery、incident-postmortem
+  --chair <代理>           主席代理
+  --synthesis <策略>       综合策略：chair、concat、map-reduce、vote、multi-chair（默认：chair）
+  --rounds <N>            讨论轮数：专家相互查看并反驳彼此的意见（默认：1）
+  --consensus <0..1>      专家一致程度达到阈值时停止讨论
+  --vote <选项>           专家对逗号分隔的选项进行加权投票（不调用主席）
+
+  --expert-timeout <毫秒>  专家超时（默认: 300000）
+  --chair-timeout <毫秒>   主席超时（默认: 600000）
+
+  -o, --output <文件>     输出文件（默认: consilium_result.txt）
+  -f, --format <格式>     输出格式: text, markdown, json
+  --file <路径>           将文件加入专家上下文（逗号分隔或多次指定）
+  --glob <模式>           按 glob 模式添加文件，例如 "src/**/*.ts"（遵循 .gitignore）
+  --diff [基准]           添加相对 HEAD 或指定分支的 git diff
+  --stdin                 将 stdin 中的文本加入上下文
+  --var <名称=值>         提示词模板变量（可重复）
+  --cache                 复用响应缓存中的回答（.consilium/cache）；回答可能已过时
+  --no-cache              即使配置启用了缓存也不使用
+  --refresh-expert <名称> 绕过缓存重新询问专家（逗号分隔或多次指定）
+  --transcript            保留完整的智能体事件日志（工具、推理、错误）；默认格式改为 json
+  -l, --log-level <级别>   日志级别: silent, error, warn, info, debug
+
+  -r, --retries <数字>     重试次数
+  --max-concurrency <N>   同时运行的专家数量上限
+  --max-cost <USD>        费用超过上限时取消运行
+  --max-tokens <N>        输入 + 输出 token 超过上限时取消运行
+  --backend <名称>        智能体后端：opencode、mock（默认：opencode）
+
+命令:
+  --init                  创建示例配置文件
+  --list-agents           显示可用代理列表
+  --dry-run               显示提示词而不调用
+  --resume <文件>         继续未完成的会诊（仅询问缺失的专家和主席）
+  cache ls                列出响应缓存条目
+  cache clear             清空响应缓存
+
+示例:
+  consilium "评估项目架构"
+  consilium -e arch,sec "检查 API 安全性"
+  consilium --panel code-review --diff main "审查变更"
+  consilium --config ./my-consilium.json "任务"
+  consilium --lang zh --answer-lang en "Review the API design"
+  consilium --init
+
+配置:
+  创建 consilium.config.json 以保存常用设置:
+
+  {
+    "experts": ["arch", "ux", "ba", "sec"],
+    "chair": "consilium",
+    "locale": "zh",
+    "timeouts": {
+      "expert": 300000,
+      "chair": 600000
+    }
+  }
+
+文档:
+  https://github.com/LevapVeeskela/opencode-consilium
+`,
+  listAgents: {
+    title: '📋 可用代理:',
+    experts: '专家:',
+    disabled: '（已禁用）',
+    chair: '主席:',
+    excluded: '已排除的代理:',
+    panels: '专家小组 (--panel):'
+  },
+  init: {
+    exists: '❌ consilium.config.json 已存在。',
+    existsHint: '   请删除它或使用其他路径。',
+    created: (path) => `✅ 已创建 ${path}`,
+    createdHint: '   请根据需要进行编辑。'
+  },
+  cache: {
+    empty: (dir) => `📭 缓存为空（${dir}）`,
+    title: (dir) => `📦 响应缓存：${dir}`,
+    expired: '（已过期）',
+    bytes: 'B',
+    total: (count) => `条目总数：${count}`,
+    cleared: (count, dir) => `🧹 已删除条目：${count}（${dir}）`
+  },
+  dryRun: {
+    title: '🔍 DRY RUN - 不调用智能体，仅显示提示词',
+    experts: '专家:',
+    chair: '[主席]',
+    chairNote: '（提示词将在专家回答后生成）'
+  },
+  progress: {
+    round: (round) => `💬 第 ${round} 轮讨论...`,
+    experts: '🔍 正在询问专家...',
+    chair: '🧠 主席综合中...',
+    retry: (attempt) => `↻ 重试（第 ${attempt} 次尝试）`
+  },
+  hooks: {
+    start: '启动中...',
+    cached: (chars) => `来自缓存（${chars} 字符）`,
+    done: (seconds, chars) => `完成（${seconds} 秒，${chars} 字符）`,
+    failed: (seconds) => `失败（${seconds} 秒）`,
+    chairStart: '综合已开始...',
+    chairCached: (chars) => `综合来自缓存（${chars} 字符）`,
+    chairDone: (seconds, chars) => `综合完成（${seconds} 秒，${chars} 字符）`,
+    chairFailed: (seconds) => `综合失败（${seconds} 秒）`
+  },
+  result: {
+    title: '📋 会诊最终计划',
+    time: (seconds) => `⏱️ 耗时：${seconds} 秒`,
+    experts: (answered, total) => `📊 专家：${answered}/${total}`,
+    usage: '💰 用量：',
+    context: (files, truncated, skipped) =>
+      `📎 上下文：${files} 个文件${truncated ? '，已截断' : ''}${skipped.length > 0 ? `，已跳过：${skipped.join(', ')}` : ''}`,
+    vote: (winner) => `🗳️ 投票：${winner ?? '未作出决定'}`,
+    consensus: (percent, round, dissenters) =>
+      `🤝 一致度：第 ${round} 轮后 ${percent}%${dissenters.length > 0 ? `，持不同意见者：${dissenters.join(', ')}` : ''}`,
+    fallback: (chair, failed) => `↪️ 综合：${chair}（在 ${failed} 失败之后）`,
+    chairFailed: '⚠️ 主席：未成功'
+  },
+  main: {
+    opencodeMissing: (path) => `❌ 未找到 OpenCode CLI（${path}）。`,
+    opencodeInstall: '   安装：npm install -g opencode-cli',
+    backendUnavailable: (name) => `❌ 智能体后端 ${name} 不可用。`,
+    resuming: (file, pending) =>
+      `↩️ 继续 ${file}：重新询问 ${pending.length > 0 ? pending.join(', ') : '仅主席'}`,
+    noTask: '❌ 请为会诊指定任务。',
+    noTaskExample: '   示例：consilium "评估架构"',
+    unknownSynthesis: (strategy) => `❌ 未知的综合策略：${strategy}`,
+    unknownLocale: (locale) => `❌ 未知语言：${locale}。可选：ru、en、zh`,
+    unknownPanel: (panel) => `❌ 未知的专家小组：${panel}。查看列表：consilium --list-agents`,
+    unknownBackend: (backend) => `❌ 未知的智能体后端：${backend}。可选：opencode、mock`,
+    forceExit: '⏹️ 强制退出',
+    cancelling: '⏹️ 正在取消...（再次按下立即退出）',
+    saved: (file) => `💾 已保存：${file}`,
+    resumeHint: (file) => `↩️ 继续：consilium --resume ${file}`,
+    error: '❌ 错误:',
+    fatal: '💥 严重错误:'
+  }
+};
+
+/**
+ * Каталоги сообщений CLI по языкам
+ */
+export const CLI_MESSAGES: Record<Locale, CliMessages> = { ru, en, zh };
@@ -6,10 +6,43 @@
  */
 
 import { writeFileSync, existsSync } from 'fs';
-import { resolve, dirname } from 'path';
+import { resolve, dirname, extname } from 'path';
 import { fileURLToPath } from 'url';
-import type { CLIOptions, ConsiliumConfig, ConsiliumResult, RunOptions } from './types.js';
-import { Consilium, createConsilium, loadConfig, generateExampleConfig, checkOpenCodeAvailable } from './index.js';
+import type {
+  AgentChunk,
+  CLIOptions,
+  ConsensusReport,
+  ConsiliumConfig,
+  ConsiliumResult,
+  Locale,
+  PanelName,
+  ProjectContext,
+  ProjectContextOptions,
+  RunOptions
+} from './types.js';
+import {
+  Consilium,
+  createConsilium,
+  loadConfig,
+  generateExampleConfig,
+  resolveBackend,
+  isBackendName,
+  loadSavedResult,
+  isSynthesisMode,
+  formatUsage,
+  listCacheEntries,
+  clearCache,
+  resolveCacheDir,
+  buildProjectContext,
+  parseTemplateVar,
+  detectLocale,
+  isLocale,
+  getMessages,
+  isPanelName,
+  resolvePanelExperts,
+  EXPERT_PANELS
+} from './index.js';
+import { CLI_MESSAGES } from './cli-messages.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -17,6 +50,9 @@ const __dirname = dirname(__filename);
 // Версия пакета
 const VERSION = '1.0.0';
 
+// Сообщения CLI: до загрузки конфига — по --lang или LANG, затем по итоговому языку
+let messages = CLI_MESSAGES[detectLocale()];
+
 /**
  * Парсит аргументы командной строки
  */
@@ -103,8 +139,114 @@ function parseArgs(argv: string[]): CLIOptions {
         options.dryRun = true;
         break;
 
+      case '--stream':
+        options.stream = true;
+        break;
+
+      case '--resume':
+        options.resume = argv[++i];
+        break;
+
+      case '--rounds':
+        options.rounds = parseInt(argv[++i] ?? '1', 10);
+        break;
+
+      case '--max-concurrency':
+        options.maxConcurrency = parseInt(argv[++i] ?? '0', 10);
+        break;
+
+      case '--max-cost':
+        options.maxCost = parseFloat(argv[++i] ?? '');
+        break;
+
+      case '--max-tokens':
+        options.maxTokens = parseInt(argv[++i] ?? '', 10);
+        break;
+
+      case '--transcript':
+        options.transcript = true;
+        break;
+
+      case '--file':
+        options.files = [
+          ...(options.files ?? []),
+          ...(argv[++i] ?? '').split(',').map(f => f.trim()).filter(Boolean)
+        ];
+        break;
+
+      case '--glob':
+        options.globs = [...(options.globs ?? []), argv[++i] ?? ''].filter(Boolean);
+        break;
+
+      case '--diff': {
+        // База необязательна: следующий аргумент без пробелов и не флаг считается веткой
+        const next = argv[i + 1];
+        options.diff = next && !next.startsWith('-') && !/\s/.test(next) ? argv[++i] : true;
+        break;
+      }
+
+      case '--stdin':
+        options.stdin = true;
+        break;
+
+      case '--cache':
+        options.cache = true;
+        break;
+
+      case '--no-cache':
+        options.noCache = true;
+        break;
+
+      case '--refresh-expert':
+        options.refreshExperts = [
+          ...(options.refreshExperts ?? []),
+          ...(argv[++i] ?? '').split(',').map(e => e.trim()).filter(Boolean)
+        ];
+        break;
+
+      case '--var': {
+        try {
+          const [name, value] = parseTemplateVar(argv[++i] ?? '', detectLocale());
+          options.vars = { ...options.vars, [name]: value };
+        } catch (error) {
+          console.error(`❌ ${(error as Error).message}`);
+          process.exit(1);
+        }
+        break;
+      }
+
+      case '--synthesis':
+        options.synthesis = argv[++i];
+        break;
+
+      case '--vote':
+        options.vote = argv[++i] ?? '';
+        break;
+
+      case '--consensus':
+        options.consensus = parseFloat(argv[++i] ?? '');
+        break;
+
+      case '--panel':
+        options.panel = argv[++i];
+        break;
+
+      case '--lang':
+        options.lang = argv[++i];
+        break;
+
+      case '--answer-lang':
+        options.answerLang = argv[++i];
+        break;
+
+      case '--backend':
+        options.backend = argv[++i];
+        break;
+
       default:
-        if (arg && !arg.startsWith('-')) {
+        if (arg.startsWith('--diff=')) {
+          options.diff = arg.substring('--diff='.length) || true;
+        } else if (arg && !arg.startsWith('-')) {
           options.task = options.task ? `${options.task} ${arg}` : arg;
         }
         break;
@@ -114,63 +256,22 @@ function parseArgs(argv: string[]): CLIOptions {
   return options;
 }
 
+/**
+ * Определяет формат вывода по расширению файла
+ */
+function inferFormat(filePath: string): 'text' | 'markdown' | 'json' | undefined {
+  const ext = extname(filePath).toLowerCase();
+  if (ext === '.json') return 'json';
+  if (ext === '.md' || ext === '.markdown') return 'markdown';
+  if (ext === '.txt') return 'text';
+  return undefined;
+}
+
 /**
  * Выводит справку
  */
 function printHelp(): void {
-  console.log(`
-consilium - Консилиум ИИ-экспертов через OpenCode CLI
-
-ИСПОЛЬЗОВАНИЕ:
-  consilium [опции] <задача>
-  consilium --init
-  consilium --list-agents
-
-ОПЦИИ:
-  -h, --help              Показать эту справку
-  -v, --version           Показать версию
-  -V, --verbose           Подробный вывод
-  -s, --silent            Тихий режим (только результат)
-
-  -c, --config <файл>     Путь к файлу конфигурации
-  -e, --experts <список>  Эксперты через запятую (arch,ux,ba,sec)
-  --chair <агент>         Агент-председатель
-
-  --expert-timeout <мс>   Таймаут для экспертов (по умолчанию: 300000)
-  --chair-timeout <мс>    Таймаут для председателя (по умолчанию: 600000)
-
-  -o, --output <файл>     Выходной файл (по умолчанию: consilium_result.txt)
-  -f, --format <формат>   Формат вывода: text, markdown, json
-  -l, --log-level <уровень> Уровень логирования: silent, error, warn, info, debug
-
-  -r, --retries <число>   Количество повторных попыток
-
-КОМАНДЫ:
-  --init                  Создать пример конфигурационного файла
-  --list-agents           Показать список доступных агентов
-  --dry-run               Показать сформированные промпты без вызова
-
-ПРИМЕРЫ:
-  consilium "Оценить архитектуру проекта"
-  consilium -e arch,sec "Проверить безопасность API"
-  consilium --config ./my-consilium.json "Задача"
-  consilium --init
-
-КОНФИГУРАЦИЯ:
-  Создайте файл consilium.config.json для постоянных настроек:
-
-  {
-    "experts": ["arch", "ux", "ba", "sec"],
-    "chair": "consilium",
-    "timeouts": {
-      "expert": 300000,
-      "chair": 600000
-    }
-  }
-
-ДОКУМЕНТАЦИЯ:
-  https://github.com/LevapVeeskela/opencode-consilium
-`);
+  console.log(messages.help);
 }
 
 /**
@@ -184,21 +285,28 @@ function printVersion(): void {
  * Выводит список агентов
  */
 async function listAgents(config: ConsiliumConfig): Promise<void> {
-  console.log('\n📋 Доступные агенты:\n');
+  console.log(`\n${messages.listAgents.title}\n`);
 
-  console.log('Эксперты:');
+  console.log(messages.listAgents.experts);
   for (const expert of config.experts) {
-    const status = expert.enabled === false ? ' (отключен)' : '';
+    const status = expert.enabled === false ? messages.listAgents.disabled : '';
     console.log(`  • ${expert.name}${status}`);
   }
 
-  console.log('\nПредседатель:');
+  console.log(`\n${messages.listAgents.chair}`);
   console.log(`  • ${config.chair.agent}`);
 
-  console.log('\nИсключённые агенты:');
+  console.log(`\n${messages.listAgents.excluded}`);
   for (const agent of config.excludedAgents || []) {
     console.log(`  • ${agent}`);
   }
+
+  const { panels } = getMessages(config.locale).prompts;
+  console.log(`\n${messages.listAgents.panels}`);
+  for (const name of Object.keys(EXPERT_PANELS) as PanelName[]) {
+    const current = name === config.panel ? ' *' : '';
+    console.log(`  • ${name}${current} — ${panels[name].title}: ${EXPERT_PANELS[name].join(', ')}`);
+  }
 }
 
 /**
@@ -208,35 +316,91 @@ function initConfig(): void {
   const configPath = resolve(process.cwd(), 'consilium.config.json');
 
   if (existsSync(configPath)) {
-    console.error('❌ Файл consilium.config.json уже существует.');
-    console.log('   Удалите его или используйте другой путь.');
+    console.error(messages.init.exists);
+    console.log(messages.init.existsHint);
     process.exit(1);
   }
 
   const example = generateExampleConfig();
   writeFileSync(configPath, example, 'utf-8');
 
-  console.log(`✅ Создан файл ${configPath}`);
-  console.log('   Отредактируйте его под свои нужды.');
+  console.log(messages.init.created(configPath));
+  console.log(messages.init.createdHint);
+}
+
+/**
+ * Читает stdin целиком
+ */
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+/**
+ * Подкоманды cache; с другим словом после cache аргументы считаются задачей
+ */
+const CACHE_COMMANDS = ['ls', 'clear'] as const;
+
+/**
+ * Проверяет, является ли значение подкомандой cache
+ */
+function isCacheCommand(value: string | undefined): value is typeof CACHE_COMMANDS[number] {
+  return value !== undefined && (CACHE_COMMANDS as readonly string[]).includes(value);
+}
+
+/**
+ * Выполняет команду cache ls|clear
+ */
+function runCacheCommand(command: typeof CACHE_COMMANDS[number], config: ConsiliumConfig): void {
+  const cache = config.cache || {};
+  const dir = resolveCacheDir(cache);
+
+  switch (command) {
+    case 'ls': {
+      const entries = listCacheEntries(cache);
+      if (entries.length === 0) {
+        console.log(messages.cache.empty(dir));
+        return;
+      }
+
+      console.log(`\n${messages.cache.title(dir)}\n`);
+      for (const entry of entries) {
+        const model = entry.model ? ` ${entry.model}` : '';
+        const expired = entry.expired ? messages.cache.expired : '';
+        console.log(`  ${entry.key.substring(0, 12)}  ${new Date(entry.createdAt).toISOString()}  ${entry.agent}${model}  ${entry.size} ${messages.cache.bytes}${expired}`);
+      }
+      console.log(`\n${messages.cache.total(entries.length)}`);
+      return;
+    }
+
+    case 'clear': {
+      const removed = clearCache(cache);
+      console.log(messages.cache.cleared(removed, dir));
+      return;
+    }
+  }
 }
 
 /**
  * Выводит dry-run информацию
  */
-function dryRun(task: string, config: ConsiliumConfig): void {
+function dryRun(task: string, config: ConsiliumConfig, projectContext?: string): void {
   const consilium = new Consilium(config);
-  const info = consilium.dryRun(task);
+  const info = consilium.dryRun(task, projectContext);
 
-  console.log('\n🔍 DRY RUN - Промпты без вызова агентов\n');
+  console.log(`\n${messages.dryRun.title}\n`);
 
-  console.log('Эксперты:');
+  console.log(messages.dryRun.experts);
   for (const { agent, prompt } of info.expertPrompts) {
     console.log(`\n[${agent.toUpperCase()}]`);
     console.log(prompt);
   }
 
-  console.log('\n[ПРЕДСЕДАТЕЛЬ]');
-  console.log('(промпт будет сформирован после ответов экспертов)');
+  console.log(`\n${messages.dryRun.chair}`);
+  console.log(messages.dryRun.chairNote);
 }
 
 /**
@@ -244,57 +408,111 @@ function dryRun(task: string, config: ConsiliumConfig): void {
  */
 function setupProgressLogging(consilium: Consilium, verbose: boolean): void {
   consilium.onProgress((event) => {
-    if (verbose) {
+    if (verbose && event.type !== 'expert_chunk' && event.type !== 'chair_chunk') {
       console.log(`[${new Date(event.timestamp).toISOString()}] ${event.type}`, event);
     }
 
+    // Ошибку запуска выводит main (только сообщение и подсказку --resume), здесь она не дублируется
     switch (event.type) {
       case 'expert_start':
-        console.log('\n🔍 Опрос экспертов...\n');
+        if (!event.agent) {
+          console.log(event.round && event.round > 1
+            ? `\n${messages.progress.round(event.round)}\n`
+            : `\n${messages.progress.experts}\n`);
+        }
         break;
       case 'chair_start':
-        console.log('\n🧠 Синтез председателя...\n');
-        break;
-      case 'error':
-        console.error('❌ Ошибка:', event.data);
+        console.log(`\n${messages.progress.chair}\n`);
         break;
     }
   });
 }
 
+/**
+ * Создаёт построчный вывод потоковых фрагментов с префиксом агента
+ */
+function createStreamPrinter(): {
+  write: (chunk: AgentChunk, label?: string) => void;
+  flush: (agent: string, label?: string) => void;
+} {
+  const buffers = new Map<string, { text: string; attempt: number }>();
+
+  const print = (label: string, line: string) => {
+    console.log(`   [${label}] ${line}`);
+  };
+
+  return {
+    write(chunk, label = chunk.agent) {
+      const buffer = buffers.get(chunk.agent) ?? { text: '', attempt: chunk.attempt };
+      if (buffer.attempt !== chunk.attempt) {
+        print(label, messages.progress.retry(chunk.attempt + 1));
+        buffer.text = '';
+        buffer.attempt = chunk.attempt;
+      }
+
+      const lines = (buffer.text + chunk.text).split('\n');
+      buffer.text = lines.pop() ?? '';
+      for (const line of lines) {
+        print(label, line);
+      }
+      buffers.set(chunk.agent, buffer);
+    },
+    flush(agent, label = agent) {
+      const buffer = buffers.get(agent);
+      if (buffer?.text) {
+        print(label, buffer.text);
+      }
+      buffers.delete(agent);
+    }
+  };
+}
+
 /**
  * Настраивает хуки для вывода в консоль
  */
-function setupConsoleHooks(config: ConsiliumConfig, silent: boolean): void {
+function setupConsoleHooks(config: ConsiliumConfig, silent: boolean, stream: boolean): void {
   if (silent) return;
 
   const expertStartTimes = new Map<string, number>();
+  const streamPrinter = stream ? createStreamPrinter() : null;
 
   config.hooks = {
     ...config.hooks,
     onExpertStart: (expert: string) => {
       expertStartTimes.set(expert, Date.now());
-      console.log(`⏳ [${expert}] Запуск...`);
+      console.log(`⏳ [${expert}] ${messages.hooks.start}`);
+    },
+    onExpertChunk: (chunk) => {
+      streamPrinter?.write(chunk);
     },
     onExpertEnd: (result) => {
+      streamPrinter?.flush(result.agent);
       const startTime = expertStartTimes.get(result.agent) || Date.now();
       const duration = ((result.duration ?? (Date.now() - startTime)) / 1000).toFixed(1);
-      if (result.success) {
-        console.log(`✅ [${result.agent}] Готово (${duration}с, ${result.text.length} симв.)`);
+      if (result.cached) {
+        console.log(`♻️ [${result.agent}] ${messages.hooks.cached(result.text.length)}`);
+      } else if (result.success) {
+        console.log(`✅ [${result.agent}] ${messages.hooks.done(duration, result.text.length)}`);
       } else {
-        console.log(`❌ [${result.agent}] Ошибка (${duration}с)`);
+        console.log(`❌ [${result.agent}] ${messages.hooks.failed(duration)}`);
       }
       expertStartTimes.delete(result.agent);
     },
     onChairStart: () => {
-      console.log(`⏳ [chair] Синтез запущен...`);
+      console.log(`⏳ [chair] ${messages.hooks.chairStart}`);
+    },
+    onChairChunk: (chunk) => {
+      streamPrinter?.write(chunk, 'chair');
     },
     onChairEnd: (result) => {
+      streamPrinter?.flush(result.agent, 'chair');
       const duration = ((result.duration ?? 0) / 1000).toFixed(1);
-      if (result.success) {
-        console.log(`✅ [chair] Синтез завершён (${duration}с, ${result.text.length} симв.)`);
+      if (result.cached) {
+        console.log(`♻️ [chair] ${messages.hooks.chairCached(result.text.length)}`);
+      } else if (result.success) {
+        console.log(`✅ [chair] ${messages.hooks.chairDone(duration, result.text.length)}`);
       } else {
-        console.log(`❌ [chair] Ошибка синтеза (${duration}с)`);
+        console.log(`❌ [chair] ${messages.hooks.chairFailed(duration)}`);
       }
     }
   };
@@ -303,14 +521,14 @@ function setupConsoleHooks(config: ConsiliumConfig, silent: boolean): void {
 /**
  * Выводит финальный результат
  */
-function printResult(result: ConsiliumResult, format: string, silent: boolean): void {
+function printResult(result: ConsiliumResult, format: string, silent: boolean, locale: Locale): void {
   if (silent) {
     console.log(result.text);
     return;
   }
 
   console.log('\n' + '═'.repeat(50));
-  console.log('📋 ИТОГОВЫЙ ПЛАН КОНСИЛИУМА');
+  console.log(messages.result.title);
   console.log('═'.repeat(50) + '\n');
 
   if (format === 'json') {
@@ -320,11 +538,34 @@ function printResult(result: ConsiliumResult, format: string, silent: boolean):
   }
 
   console.log('\n' + '─'.repeat(50));
-  console.log(`⏱️ Время: ${(result.totalTime / 1000).toFixed(1)}с`);
-  console.log(`📊 Экспертов: ${result.experts.filter(e => e.success).length}/${result.experts.length}`);
+  console.log(messages.result.time((result.totalTime / 1000).toFixed(1)));
+  console.log(messages.result.experts(result.experts.filter(e => e.success).length, result.experts.length));
+
+  if (result.usage) {
+    console.log(`${messages.result.usage} ${formatUsage(result.usage, locale)}`);
+  }
+
+  const context = result.metadata?.context as ProjectContext | undefined;
+  if (context) {
+    console.log(messages.result.context(context.files.length, context.truncated, context.skipped.map(f => f.path)));
+  }
+
+  if (result.vote) {
+    console.log(messages.result.vote(result.vote.winner));
+  }
+
+  const consensus = result.metadata?.consensus as ConsensusReport | undefined;
+  if (consensus) {
+    console.log(messages.result.consensus(Math.round(consensus.score * 100), consensus.round, consensus.dissenters));
+  }
+
+  if (result.chairFallbacks) {
+    const failed = result.chairFallbacks.map(r => r.agent).join(', ');
+    console.log(messages.result.fallback(result.chair.agent, failed));
+  }
 
   if (!result.success) {
-    console.log(`⚠️ Председатель: неуспешно`);
+    console.log(messages.result.chairFailed);
   }
 }
 
@@ -335,6 +576,10 @@ async function main(): Promise<void> {
   const argv = process.argv.slice(2);
   const options = parseArgs(argv);
 
+  if (options.lang && isLocale(options.lang)) {
+    messages = CLI_MESSAGES[options.lang];
+  }
+
   // Обработка служебных команд
   if (options.help) {
     printHelp();
@@ -351,15 +596,26 @@ async function main(): Promise<void> {
     process.exit(0);
   }
 
-  // Проверяем OpenCode
-  if (!(await checkOpenCodeAvailable())) {
-    console.error('❌ OpenCode CLI не найден.');
-    console.error('   Установите: npm install -g opencode-cli');
-    process.exit(1);
+  // consilium cache ls|clear — служебная команда, бэкенд не нужен;
+  // задача, которая просто начинается со слова cache, запускается как обычно
+  if (argv[0] === 'cache' && isCacheCommand(argv[1])) {
+    const cacheOptions = parseArgs(argv.slice(2));
+    const { config } = loadConfig(cacheOptions.config, {
+      locale: isLocale(options.lang) ? options.lang : undefined,
+      defaultLocale: detectLocale()
+    });
+    if (!options.lang && config.locale && isLocale(config.locale)) {
+      messages = CLI_MESSAGES[config.locale];
+    }
+    runCacheCommand(argv[1], config);
+    process.exit(0);
   }
 
   // Загружаем конфигурацию
-  const { config, warnings } = loadConfig(options.config);
+  const { config, warnings } = loadConfig(options.config, {
+    locale: isLocale(options.lang) ? options.lang : undefined,
+    defaultLocale: detectLocale()
+  });
 
   if (warnings.length > 0 && !options.silent) {
     for (const warning of warnings) {
@@ -367,22 +623,109 @@ async function main(): Promise<void> {
     }
   }
 
+  // Язык: --lang, затем locale из конфига, затем LANG
+  const locale = options.lang ?? config.locale ?? detectLocale();
+  if (!isLocale(locale)) {
+    console.error(messages.main.unknownLocale(locale));
+    process.exit(1);
+  }
+  config.locale = locale;
+  messages = CLI_MESSAGES[locale];
+
+  if (options.answerLang) {
+    config.answerLanguage = options.answerLang;
+  }
+
+  // Панель заменяет экспертов из конфига; --experts затем отбирает из её состава
+  if (options.panel) {
+    if (!isPanelName(options.panel)) {
+      console.error(messages.main.unknownPanel(options.panel));
+      process.exit(1);
+    }
+    config.panel = options.panel;
+    config.experts = resolvePanelExperts(options.panel, config.experts, { agents: config.openCodeAgents, locale });
+  }
+
+  if (options.backend) {
+    if (!isBackendName(options.backend)) {
+      console.error(messages.main.unknownBackend(options.backend));
+      process.exit(1);
+    }
+    config.backend = options.backend;
+  }
+
+  // Проверяем бэкенд агентов
+  const backend = resolveBackend(config);
+  if (backend.isAvailable && !(await backend.isAvailable())) {
+    if (backend.name === 'opencode') {
+      console.error(messages.main.opencodeMissing(config.opencodePath || 'opencode'));
+      console.error(messages.main.opencodeInstall);
+    } else {
+      console.error(messages.main.backendUnavailable(backend.name));
+    }
+    process.exit(1);
+  }
+
   // --list-agents
   if (options.listAgents) {
     await listAgents(config);
     process.exit(0);
   }
 
+  // --resume: берём задачу и ответы экспертов из сохранённого результата
+  let resumeFrom: ConsiliumResult | undefined;
+  if (options.resume) {
+    try {
+      resumeFrom = loadSavedResult(options.resume, locale);
+    } catch (error) {
+      console.error(`❌ ${(error as Error).message}`);
+      process.exit(1);
+    }
+
+    options.task = options.task || resumeFrom.task || '';
+    options.output = options.output ?? options.resume;
+    options.format = options.format ?? inferFormat(options.resume);
+
+    if (!options.silent) {
+      const pending = resumeFrom.partial?.pendingExperts ?? [];
+      console.log(messages.main.resuming(options.resume, pending));
+    }
+  }
+
+  // Контекст проекта: файлы, glob, git diff и stdin
+  let context: ProjectContextOptions | undefined;
+  if (options.files || options.globs || options.diff || options.stdin) {
+    context = {
+      files: options.files,
+      globs: options.globs,
+      diff: options.diff,
+      text: options.stdin ? await readStdin() : undefined
+    };
+  }
+
   // Проверяем задачу
   if (!options.task) {
-    console.error('❌ Укажите задачу для консилиума.');
-    console.error('   Пример: consilium "Оценить архитектуру"');
+    console.error(messages.main.noTask);
+    console.error(messages.main.noTaskExample);
     process.exit(1);
   }
 
+  // Переменные шаблонов нужны и для --dry-run
+  if (options.vars) {
+    config.vars = { ...config.vars, ...options.vars };
+  }
+
   // --dry-run
   if (options.dryRun) {
-    dryRun(options.task, config);
+    try {
+      const projectContext = context
+        ? await buildProjectContext(context, resolve(process.cwd(), config.cwd ?? '.'), locale)
+        : undefined;
+      dryRun(options.task, config, projectContext?.text);
+    } catch (error) {
+      console.error(`❌ ${(error as Error).message}`);
+      process.exit(1);
+    }
     process.exit(0);
   }
 
@@ -405,6 +748,61 @@ async function main(): Promise<void> {
     config.retry.chairRetries = options.retries;
   }
 
+  if (options.rounds !== undefined && !Number.isNaN(options.rounds)) {
+    config.deliberation = { ...config.deliberation, rounds: options.rounds };
+  }
+
+  if (options.consensus !== undefined && !Number.isNaN(options.consensus)) {
+    config.deliberation = {
+      rounds: 1,
+      ...config.deliberation,
+      consensus: { ...config.deliberation?.consensus, threshold: options.consensus }
+    };
+  }
+
+  if (options.maxConcurrency !== undefined && !Number.isNaN(options.maxConcurrency)) {
+    config.maxConcurrency = options.maxConcurrency;
+  }
+
+  if (options.maxCost !== undefined && !Number.isNaN(options.maxCost)) {
+    config.budget = { ...config.budget, maxCost: options.maxCost };
+  }
+
+  if (options.maxTokens !== undefined && !Number.isNaN(options.maxTokens)) {
+    config.budget = { ...config.budget, maxTokens: options.maxTokens };
+  }
+
+  // Кэш включается явно (--cache или секция cache конфига): ответ из кэша может устареть,
+  // если изменились файлы проекта, которых нет в промпте
+  if (options.noCache) {
+    config.cache = false;
+  } else if (options.cache || config.cache) {
+    const cache = config.cache || {};
+    config.cache = {
+      ...cache,
+      refresh: [...(cache.refresh ?? []), ...(options.refreshExperts ?? [])]
+    };
+  }
+
+  // Журнал виден только в JSON, поэтому он становится форматом по умолчанию
+  if (options.transcript) {
+    config.transcript = true;
+    options.format = options.format ?? 'json';
+  }
+
+  if (options.synthesis) {
+    if (!isSynthesisMode(options.synthesis)) {
+      console.error(messages.main.unknownSynthesis(options.synthesis));
+      process.exit(1);
+    }
+    config.chair.strategy = options.synthesis;
+  }
+
+  if (options.vote !== undefined) {
+    const voteOptions = options.vote.split(',').map(o => o.trim()).filter(Boolean);
+    config.voting = { ...config.voting, options: voteOptions.length > 0 ? voteOptions : undefined };
+  }
+
   if (options.format) {
     config.output.format = options.format;
   }
@@ -418,17 +816,25 @@ async function main(): Promise<void> {
   }
 
   // Настраиваем вывод
-  setupConsoleHooks(config, options.silent || false);
+  setupConsoleHooks(config, options.silent || false, options.stream || false);
 
   // Создаём и запускаем
   const consilium = new Consilium(config);
   setupProgressLogging(consilium, options.verbose || false);
 
-  // Graceful shutdown
-  const shutdown = () => {
-    console.log('\n⏹️ Отмена...');
-    consilium.cancel();
-    process.exit(130);
+  // Graceful shutdown: отменяем запуск, ждём завершения процессов и сохраняем частичный результат
+  let shuttingDown = false;
+  const shutdown = (signal: NodeJS.Signals) => {
+    if (shuttingDown) {
+      console.log(`\n${messages.main.forceExit}`);
+      process.exit(130);
+    }
+    shuttingDown = true;
+    console.log(`\n${messages.main.cancelling}`);
+    consilium.cancel(signal);
+
+    // Страховка, если процессы не завершились после SIGKILL
+    setTimeout(() => process.exit(130), config.timeouts.shutdown * 2).unref();
   };
 
   process.on('SIGINT', shutdown);
@@ -436,7 +842,9 @@ async function main(): Promise<void> {
 
   try {
     const runOptions: RunOptions = {
-      outputFile: options.output
+      outputFile: options.output,
+      resumeFrom,
+      context
     };
     if (options.chair) {
       runOptions.chair = options.chair;
@@ -444,22 +852,37 @@ async function main(): Promise<void> {
     
     const result = await consilium.run(options.task, runOptions);
 
-    printResult(result, config.output.format, options.silent || false);
+    printResult(result, config.output.format, options.silent || false, locale);
 
     if (config.output.file && !options.silent) {
-      console.log(`💾 Сохранено: ${config.output.file}`);
+      console.log(messages.main.saved(config.output.file));
+
+      if (result.partial && options.output !== undefined) {
+        console.log(messages.main.resumeHint(options.output));
+      }
+    }
+
+    if (shuttingDown) {
+      process.exit(130);
     }
 
     process.exit(result.success ? 0 : 1);
 
   } catch (error) {
-    console.error('\n❌ Ошибка:', (error as Error).message);
+    console.error(`\n${messages.main.error}`, (error as Error).message);
+
+    // Запуск без кворума сохраняет собранные ответы для --resume
+    const partial = (error as Error & { result?: ConsiliumResult }).result;
+    if (partial?.partial && config.output.file && options.output !== undefined && !options.silent) {
+      console.log(messages.main.saved(config.output.file));
+      console.log(messages.main.resumeHint(options.output));
+    }
     process.exit(1);
   }
 }
 
 // Запуск
 main().catch((error) => {
-  console.error('💥 Критическая ошибка:', error);
+  console.error(messages.main.fatal, error);
   process.exit(1);
 });
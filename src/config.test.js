@@ -1,5 +1,8 @@
 import { describe, it } from 'node:test';
 import assert from 'node:assert';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { 
   loadConfig, 
   createMinimalConfig, 
@@ -28,6 +31,81 @@ describe('config.ts', () => {
       
       assert.strictEqual(result.config.chair.agent, 'consilium');
     });
+
+    it('должен подставлять экспертов панели и предупреждать о неизвестной', () => {
+      const dir = mkdtempSync(join(tmpdir(), 'consilium-config-'));
+      const file = join(dir, 'consilium.config.json');
+      try {
+        writeFileSync(file, JSON.stringify({
+          panel: 'incident-postmortem',
+          experts: [{ name: 'devops', timeout: 1000 }]
+        }));
+        const { config } = loadConfig(file);
+        assert.deepStrictEqual(config.experts.map(e => e.name), ['devops', 'arch', 'sec', 'perf', 'data']);
+        assert.strictEqual(config.experts[0].timeout, 1000);
+
+        writeFileSync(file, JSON.stringify({ panel: 'nope', experts: [{ name: 'arch' }] }));
+        const result = loadConfig(file);
+        assert.deepStrictEqual(result.config.experts.map(e => e.name), ['arch']);
+        assert.strictEqual(result.config.panel, undefined);
+        assert.ok(result.warnings.some(w => w.includes('Неизвестная панель экспертов: nope')));
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('должен вызывать роли панели без агента в opencode.json в режиме default', () => {
+      const dir = mkdtempSync(join(tmpdir(), 'consilium-config-'));
+      const file = join(dir, 'consilium.config.json');
+      const opencodePath = join(dir, 'opencode.json');
+      try {
+        writeFileSync(opencodePath, JSON.stringify({ agent: { arch: {}, devops: { mode: 'subagent' } } }));
+        writeFileSync(file, JSON.stringify({ panel: 'incident-postmortem', opencodeConfigPath: opencodePath }));
+        const { config } = loadConfig(file);
+
+        assert.deepStrictEqual(
+          config.experts.map(e => [e.name, e.invocation]),
+          [['devops', 'subagent'], ['arch', undefined], ['sec', 'default'], ['perf', 'default'], ['data', 'default']]
+        );
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('должен использовать встроенный промпт, если файла промпта нет', () => {
+      const dir = mkdtempSync(join(tmpdir(), 'consilium-config-'));
+      const file = join(dir, 'consilium.config.json');
+      try {
+        writeFileSync(file, JSON.stringify({
+          experts: [{ name: 'arch', promptFile: 'missing.md' }],
+          chair: { agent: 'consilium', promptFile: 'chair.md' }
+        }));
+        const { config, warnings } = loadConfig(file);
+
+        assert.strictEqual(config.experts[0].promptFile, undefined);
+        assert.strictEqual(config.chair.promptFile, undefined);
+        assert.ok(warnings.some(w => w.includes('Файл промпта arch не найден: missing.md')));
+        assert.ok(warnings.some(w => w.includes('Файл промпта председателя не найден: chair.md')));
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('должен писать предупреждения на языке из параметров или конфига', () => {
+      const dir = mkdtempSync(join(tmpdir(), 'consilium-config-'));
+      const file = join(dir, 'consilium.config.json');
+      try {
+        writeFileSync(file, JSON.stringify({ panel: 'nope', maxConcurrency: 0 }));
+        assert.ok(loadConfig(file, { defaultLocale: 'en' }).warnings.includes('Unknown expert panel: nope. Experts from the config are used.'));
+        assert.ok(loadConfig(file).warnings.includes('maxConcurrency меньше 1. Ограничение параллельности не применяется.'));
+
+        writeFileSync(file, JSON.stringify({ panel: 'nope', locale: 'zh' }));
+        assert.ok(loadConfig(file, { defaultLocale: 'en' }).warnings.some(w => w.startsWith('未知的专家小组：nope')));
+        assert.ok(loadConfig(file, { locale: 'en' }).warnings.some(w => w.startsWith('Unknown expert panel: nope')));
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
   });
 
   describe('createMinimalConfig', () => {
@@ -4,17 +4,24 @@
  */
 
 import { readFileSync, existsSync } from 'fs';
-import { resolve } from 'path';
+import { dirname, resolve } from 'path';
 import type { 
   ConsiliumConfig, 
-  ExpertConfig
+  ExpertConfig,
+  Locale,
+  OpenCodeAgentDefinition
 } from './types.js';
 import { 
   DEFAULT_CONFIG, 
-  DEFAULT_EXPERT_PROMPTS,
   CONFIG_FILE_NAMES,
   EXCLUDED_AGENTS
 } from './defaults.js';
+import { isBackendName } from './backends.js';
+import { isInvocationMode } from './invocation.js';
+import { isSynthesisMode } from './synthesis.js';
+import { renderTemplate } from './template.js';
+import { getMessages, isLocale, SUPPORTED_LOCALES } from './i18n.js';
+import { isPanelName, resolvePanelExperts } from './panels.js';
 
 /**
  * Результат загрузки конфигурации
@@ -25,6 +32,16 @@ export interface ConfigLoadResult {
   warnings: string[];
 }
 
+/**
+ * Настройки загрузки конфигурации
+ */
+export interface ConfigLoadOptions {
+  /** Язык предупреждений; важнее locale из конфига (например, из --lang) */
+  locale?: Locale;
+  /** Язык предупреждений, если locale не задан ни здесь, ни в конфиге (например, из LANG) */
+  defaultLocale?: Locale;
+}
+
 /**
  * Загружает opencode.json для автоопределения агентов
  */
@@ -41,42 +58,69 @@ function loadOpenCodeConfig(configPath: string = 'opencode.json'): Record<string
 }
 
 /**
- * Извлекает агентов из opencode.json
+ * Извлекает определения агентов из opencode.json
+ *
+ * Агентам без своей модели подставляется модель opencode.json по умолчанию.
  */
-function extractAgentsFromOpenCode(
-  openCodeConfig: Record<string, unknown> | null,
-  excludedAgents: string[]
-): ExpertConfig[] {
+function extractAgentDefinitions(
+  openCodeConfig: Record<string, unknown> | null
+): Record<string, OpenCodeAgentDefinition> {
   if (!openCodeConfig || typeof openCodeConfig !== 'object') {
-    return [];
+    return {};
   }
 
   const agentSection = openCodeConfig.agent;
   if (!agentSection || typeof agentSection !== 'object') {
-    return [];
+    return {};
   }
 
-  const agents = Object.keys(agentSection as Record<string, unknown>);
-  
-  return agents
-    .filter(name => !excludedAgents.includes(name))
-    .map((name, index) => ({
-      name,
-      enabled: true,
-      priority: index + 1,
-      prompt: DEFAULT_EXPERT_PROMPTS[name] ?? DEFAULT_EXPERT_PROMPTS.default ?? ((task: string) => task)
-    }));
+  const defaultModel = typeof openCodeConfig.model === 'string' ? openCodeConfig.model : undefined;
+  const definitions: Record<string, OpenCodeAgentDefinition> = {};
+
+  for (const [name, agent] of Object.entries(agentSection as Record<string, unknown>)) {
+    const definition = agent && typeof agent === 'object' ? agent as OpenCodeAgentDefinition : {};
+    definitions[name] = defaultModel && !definition.model
+      ? { ...definition, model: defaultModel }
+      : definition;
+  }
+  return definitions;
+}
+
+/**
+ * Извлекает агентов из opencode.json
+ */
+function extractAgentsFromOpenCode(
+  definitions: Record<string, OpenCodeAgentDefinition>,
+  excludedAgents: string[]
+): ExpertConfig[] {
+  return Object.entries(definitions)
+    .filter(([name]) => !excludedAgents.includes(name))
+    .map(([name, agent], index) => {
+      const expert: ExpertConfig = {
+        name,
+        enabled: true,
+        priority: index + 1
+      };
+
+      // Subagent'ы нельзя вызвать через --agent
+      if (agent.mode === 'subagent') {
+        expert.invocation = 'subagent';
+      }
+
+      return expert;
+    });
 }
 
 /**
  * Валидирует конфигурацию
  */
-function validateConfig(config: ConsiliumConfig): string[] {
+function validateConfig(config: ConsiliumConfig, locale?: Locale): string[] {
   const warnings: string[] = [];
+  const t = getMessages(locale).warnings;
 
   // Проверка экспертов
   if (config.experts && config.experts.length === 0) {
-    warnings.push('Список экспертов пуст. Добавьте хотя бы одного эксперта.');
+    warnings.push(t.noExperts);
   }
 
   // Проверка дубликатов экспертов
@@ -84,21 +128,89 @@ function validateConfig(config: ConsiliumConfig): string[] {
     const names = config.experts.map(e => e.name);
     const duplicates = names.filter((n, i) => names.indexOf(n) !== i);
     if (duplicates.length > 0) {
-      warnings.push(`Обнаружены дубликаты экспертов: ${duplicates.join(', ')}`);
+      warnings.push(t.duplicateExperts(duplicates.join(', ')));
     }
   }
 
   // Проверка таймаутов
   if (config.timeouts.expert < 10000) {
-    warnings.push('Таймаут эксперта слишком маленький (< 10 сек). Возможны ложные таймауты.');
+    warnings.push(t.expertTimeout);
   }
   if (config.timeouts.chair < 30000) {
-    warnings.push('Таймаут председателя слишком маленький (< 30 сек). Возможны ложные таймауты.');
+    warnings.push(t.chairTimeout);
   }
 
   // Проверка председателя
   if (!config.chair.agent) {
-    warnings.push('Не указан агент-председатель. Используется значение по умолчанию.');
+    warnings.push(t.noChair);
+  }
+
+  // Проверка шаблона председателя: синтаксические ошибки лучше увидеть до опроса экспертов
+  if (typeof config.chair.promptTemplate === 'string') {
+    try {
+      renderTemplate(config.chair.promptTemplate, {}, config.partials, locale);
+    } catch (error) {
+      warnings.push(t.chairTemplate((error as Error).message));
+    }
+  }
+  if (config.chair.maxExpertTextLength !== undefined && !(config.chair.maxExpertTextLength > 0)) {
+    warnings.push(t.maxExpertTextLength);
+  }
+
+  // Проверка языка
+  if (config.locale !== undefined && !isLocale(config.locale)) {
+    warnings.push(t.unknownLocale(String(config.locale), SUPPORTED_LOCALES.join(', ')));
+  }
+
+  // Проверка бэкенда
+  if (typeof config.backend === 'string' && !isBackendName(config.backend)) {
+    warnings.push(t.unknownBackend(config.backend));
+  }
+
+  // Проверка режимов вызова
+  const invocations: Array<[string, unknown]> = [
+    ['invocation', config.invocation],
+    ['chair.invocation', config.chair.invocation],
+    ...(config.experts || []).map(e => [`experts.${e.name}.invocation`, e.invocation] as [string, unknown])
+  ];
+  for (const [field, value] of invocations) {
+    if (typeof value === 'string' && !isInvocationMode(value)) {
+      warnings.push(t.unknownInvocation(field, value));
+    }
+  }
+
+  // Проверка стратегии синтеза
+  const strategy = config.chair.strategy;
+  if (typeof strategy === 'string' && !isSynthesisMode(strategy)) {
+    warnings.push(t.unknownSynthesis(strategy));
+  }
+
+  // Проверка очереди
+  if (config.maxConcurrency !== undefined && config.maxConcurrency < 1) {
+    warnings.push(t.maxConcurrency);
+  }
+  for (const [key, perMinute] of Object.entries(config.rateLimits ?? {})) {
+    if (!(perMinute > 0)) {
+      warnings.push(t.rateLimit(key));
+    }
+  }
+
+  // Проверка кворума
+  if (config.quorum) {
+    const expertNames = (config.experts || []).map(e => e.name);
+    const unknown = (config.quorum.required ?? []).filter(name => !expertNames.includes(name));
+    if (unknown.length > 0) {
+      warnings.push(t.quorumUnknownExperts(unknown.join(', ')));
+    }
+    if (config.quorum.min !== undefined && config.quorum.min >= 1 && config.quorum.min > expertNames.length) {
+      warnings.push(t.quorumUnreachable(config.quorum.min, expertNames.length));
+    }
+  }
+
+  // Проверка обсуждения
+  const threshold = config.deliberation?.consensus?.threshold;
+  if (threshold !== undefined && (threshold <= 0 || threshold > 1)) {
+    warnings.push(t.consensusThreshold(threshold));
   }
 
   return warnings;
@@ -162,11 +274,12 @@ function findConfigFile(explicitPath?: string): string | null {
 
 /**
  * Парсит промпт из конфига
+ *
+ * Без промпта эксперт получает встроенный промпт на языке запуска.
  */
 function parsePromptConfig(
-  promptConfig: unknown,
-  expertName: string
-): string | ((task: string) => string) {
+  promptConfig: unknown
+): string | ((task: string) => string) | undefined {
   if (typeof promptConfig === 'string') {
     return promptConfig;
   }
@@ -175,13 +288,13 @@ function parsePromptConfig(
     return promptConfig as (task: string) => string;
   }
 
-  return DEFAULT_EXPERT_PROMPTS[expertName] ?? DEFAULT_EXPERT_PROMPTS.default ?? ((task: string) => task);
+  return undefined;
 }
 
 /**
  * Загружает конфигурацию из файла
  */
-export function loadConfig(explicitPath?: string): ConfigLoadResult {
+export function loadConfig(explicitPath?: string, options: ConfigLoadOptions = {}): ConfigLoadResult {
   const warnings: string[] = [];
   const configPath = findConfigFile(explicitPath);
 
@@ -193,38 +306,79 @@ export function loadConfig(explicitPath?: string): ConfigLoadResult {
       const content = readFileSync(configPath, 'utf-8');
       userConfig = JSON.parse(content) as Partial<ConsiliumConfig>;
     } catch (error) {
-      warnings.push(`Ошибка при чтении ${configPath}: ${(error as Error).message}`);
+      warnings.push(getMessages(options.locale ?? options.defaultLocale).warnings.readError(configPath, (error as Error).message));
+    }
+  }
+
+  const locale = options.locale ?? (isLocale(userConfig.locale) ? userConfig.locale : options.defaultLocale);
+  const t = getMessages(locale).warnings;
+
+  // Модели агентов из opencode.json нужны панели, лимитам запросов, ценам и кэшу
+  const openCodeAgents = extractAgentDefinitions(loadOpenCodeConfig(
+    userConfig.opencodeConfigPath || DEFAULT_CONFIG.opencodeConfigPath
+  ));
+  if (Object.keys(openCodeAgents).length > 0) {
+    userConfig.openCodeAgents = openCodeAgents;
+  }
+
+  // Панель задаёт состав экспертов; одноимённые эксперты из конфига дополняют её
+  if (userConfig.panel !== undefined) {
+    if (isPanelName(userConfig.panel)) {
+      userConfig.experts = resolvePanelExperts(userConfig.panel, userConfig.experts, {
+        agents: userConfig.openCodeAgents,
+        locale
+      });
+    } else {
+      warnings.push(t.unknownPanel(String(userConfig.panel)));
+      delete userConfig.panel;
     }
   }
 
   // Автоопределение агентов из opencode.json
   if (userConfig.autoDiscoverAgents !== false && DEFAULT_CONFIG.autoDiscoverAgents) {
-    const opencodeConfig = loadOpenCodeConfig(
-      userConfig.opencodeConfigPath || DEFAULT_CONFIG.opencodeConfigPath
-    );
-    
-    if (opencodeConfig) {
-      const excludedAgents = [
-        ...EXCLUDED_AGENTS,
-        ...(userConfig.excludedAgents || [])
-      ];
-      
-      const discoveredAgents = extractAgentsFromOpenCode(opencodeConfig, excludedAgents);
-      
-      if (discoveredAgents.length > 0 && !userConfig.experts) {
-        userConfig.experts = discoveredAgents;
-      }
+    const excludedAgents = [
+      ...EXCLUDED_AGENTS,
+      ...(userConfig.excludedAgents || [])
+    ];
+
+    const discoveredAgents = extractAgentsFromOpenCode(openCodeAgents, excludedAgents);
+
+    if (discoveredAgents.length > 0 && !userConfig.experts) {
+      userConfig.experts = discoveredAgents;
     }
   }
 
+  // Файлы промптов указываются относительно конфига;
+  // без файла используется prompt из конфига или встроенный промпт, а не ошибка посреди запуска
+  const configDir = configPath ? dirname(configPath) : process.cwd();
+  const resolvePromptFile = (promptFile: string | undefined, owner: string): string | undefined => {
+    if (!promptFile) {
+      return undefined;
+    }
+    const fullPath = resolve(configDir, promptFile);
+    if (!existsSync(fullPath)) {
+      warnings.push(t.promptFileMissing(owner, promptFile));
+      return undefined;
+    }
+    return fullPath;
+  };
+
   // Обработка промптов экспертов
   if (userConfig.experts) {
     userConfig.experts = userConfig.experts.map(expert => ({
       ...expert,
-      prompt: parsePromptConfig(expert.prompt, expert.name)
+      prompt: parsePromptConfig(expert.prompt),
+      promptFile: resolvePromptFile(expert.promptFile, expert.name)
     }));
   }
 
+  if (userConfig.chair?.promptFile) {
+    userConfig.chair = {
+      ...userConfig.chair,
+      promptFile: resolvePromptFile(userConfig.chair.promptFile, t.chair)
+    };
+  }
+
   // Слияние с дефолтным конфигом
   const mergedConfig = deepMerge(
     DEFAULT_CONFIG as unknown as Record<string, unknown>,
@@ -232,7 +386,7 @@ export function loadConfig(explicitPath?: string): ConfigLoadResult {
   ) as unknown as ConsiliumConfig;
 
   // Валидация
-  const validationWarnings = validateConfig(mergedConfig);
+  const validationWarnings = validateConfig(mergedConfig, locale);
   warnings.push(...validationWarnings);
 
   return {
@@ -250,8 +404,7 @@ export function createMinimalConfig(experts: string[] = []): ConsiliumConfig {
     ? experts.map((name, index) => ({
         name,
         enabled: true,
-        priority: index + 1,
-        prompt: DEFAULT_EXPERT_PROMPTS[name] ?? DEFAULT_EXPERT_PROMPTS.default ?? ((task: string) => task)
+        priority: index + 1
       }))
     : DEFAULT_CONFIG.experts;
 
@@ -299,6 +452,7 @@ export function generateExampleConfig(): string {
         maxExpertTextLength: 3000
       },
       excludedAgents: ['build', 'plan', 'consilium'],
+      invocation: 'agent',
       timeouts: {
         expert: 300000,
         chair: 600000,
@@ -0,0 +1,104 @@
+/**
+ * @fileoverview Оценка согласия экспертов между раундами обсуждения
+ * @module opencode-consilium
+ */
+
+import type { AgentListeners, AgentResult, ConsensusReport, ConsiliumConfig } from './types.js';
+import { DEFAULT_CONSENSUS_PROMPT_TEMPLATE } from './defaults.js';
+import { resolveLocale } from './i18n.js';
+import { callAgent } from './agents.js';
+
+/**
+ * Извлекает оценку согласия из ответа судьи
+ */
+export function parseConsensusVerdict(
+  text: string
+): Pick<ConsensusReport, 'score' | 'dissenters' | 'summary'> | null {
+  const jsonStart = text.indexOf('{');
+  const jsonEnd = text.lastIndexOf('}');
+  if (jsonStart === -1 || jsonEnd < jsonStart) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(text.substring(jsonStart, jsonEnd + 1)) as Record<string, unknown>;
+    const score = Number(parsed.score);
+    if (!Number.isFinite(score)) {
+      return null;
+    }
+
+    return {
+      score: Math.min(1, Math.max(0, score)),
+      dissenters: Array.isArray(parsed.dissenters)
+        ? parsed.dissenters.filter((d): d is string => typeof d === 'string')
+        : [],
+      summary: typeof parsed.summary === 'string' ? parsed.summary : undefined
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Оценивает согласие экспертов по итогам раунда
+ *
+ * Возвращает null, если оценка не настроена или судья не дал разборчивого ответа.
+ * Результат вызова судьи (с расходом токенов) передаётся в listeners.onEnd.
+ */
+export async function measureConsensus(
+  experts: AgentResult[],
+  task: string,
+  round: number,
+  config: ConsiliumConfig,
+  signal?: AbortSignal,
+  listeners: AgentListeners = {}
+): Promise<ConsensusReport | null> {
+  const consensus = config.deliberation?.consensus;
+  if (!consensus) {
+    return null;
+  }
+
+  const answered = experts.filter(r => r.success);
+  if (answered.length < 2) {
+    return null;
+  }
+
+  let verdict: Pick<ConsensusReport, 'score' | 'dissenters' | 'summary'> | null;
+
+  if (consensus.measure) {
+    verdict = await consensus.measure(task, answered);
+  } else {
+    const judge = consensus.judge ?? config.chair.agent;
+    const prompt = consensus.promptTemplate
+      ? consensus.promptTemplate(task, answered)
+      : DEFAULT_CONSENSUS_PROMPT_TEMPLATE(task, answered, config.deliberation?.maxOpinionLength, resolveLocale(config));
+
+    const result = await callAgent(judge, prompt, config, {
+      timeout: config.timeouts.chair,
+      retries: config.retry.chairRetries,
+      isChair: true,
+      hooks: false,
+      invocation: consensus.judge ? config.invocation : config.chair.invocation ?? config.invocation,
+      model: consensus.judge ? undefined : config.chair.model,
+      signal
+    });
+    listeners.onEnd?.(result);
+
+    verdict = result.success ? parseConsensusVerdict(result.text) : null;
+  }
+
+  if (!verdict) {
+    return null;
+  }
+
+  // Судья может упомянуть несуществующих экспертов
+  const names = new Set(answered.map(r => r.agent));
+
+  return {
+    score: verdict.score,
+    dissenters: verdict.dissenters.filter(name => names.has(name)),
+    round,
+    reached: verdict.score >= consensus.threshold,
+    summary: verdict.summary
+  };
+}
@@ -0,0 +1,128 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import { spawnSync } from 'node:child_process';
+import { existsSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  globToRegExp,
+  expandGlobs,
+  buildProjectContext,
+  appendProjectContext
+} from './context.js';
+
+describe('context.ts', () => {
+  let dir;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'consilium-context-'));
+    mkdirSync(join(dir, 'src', 'nested'), { recursive: true });
+    mkdirSync(join(dir, 'node_modules', 'pkg'), { recursive: true });
+    mkdirSync(join(dir, 'generated'));
+    writeFileSync(join(dir, 'src', 'a.ts'), 'export const a = 1;\n');
+    writeFileSync(join(dir, 'src', 'nested', 'b.ts'), 'export const b = 2;\n');
+    writeFileSync(join(dir, 'src', 'logo.png'), Buffer.from([0x89, 0x50, 0x00, 0x01]));
+    writeFileSync(join(dir, 'node_modules', 'pkg', 'index.ts'), 'ignored');
+    writeFileSync(join(dir, 'generated', 'c.ts'), 'ignored');
+    writeFileSync(join(dir, '.gitignore'), '# сборка\ngenerated/\n');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('globToRegExp', () => {
+    it('должен различать * и **', () => {
+      assert.ok(globToRegExp('src/*.ts').test('src/a.ts'));
+      assert.ok(!globToRegExp('src/*.ts').test('src/nested/b.ts'));
+      assert.ok(globToRegExp('src/**/*.ts').test('src/a.ts'));
+      assert.ok(globToRegExp('src/**/*.ts').test('src/nested/b.ts'));
+      assert.ok(globToRegExp('?.md').test('a.md'));
+    });
+  });
+
+  describe('expandGlobs', () => {
+    it('должен учитывать .gitignore и встроенные исключения', () => {
+      assert.deepStrictEqual(expandGlobs(['**/*.ts'], dir), ['src/a.ts', 'src/nested/b.ts']);
+      assert.deepStrictEqual(expandGlobs(['**/*.ts'], dir, ['nested']), ['src/a.ts']);
+    });
+  });
+
+  describe('buildProjectContext', () => {
+    it('должен собирать файлы, текст и пропускать бинарные', async () => {
+      const context = await buildProjectContext({
+        files: ['src/a.ts'],
+        globs: ['src/**/*'],
+        text: 'Лог ошибки'
+      }, dir);
+
+      assert.deepStrictEqual(context.files, ['src/a.ts', 'src/nested/b.ts']);
+      assert.deepStrictEqual(context.skipped, [{ path: 'src/logo.png', reason: 'бинарный файл' }]);
+      assert.match(context.text, /^### Ввод\nЛог ошибки/);
+      assert.ok(context.text.includes('### src/a.ts\n```ts\nexport const a = 1;\n```'));
+      assert.strictEqual(context.truncated, false);
+    });
+
+    it('должен применять ограничения размера', async () => {
+      writeFileSync(join(dir, 'src', 'big.ts'), 'x'.repeat(500));
+
+      const bySize = await buildProjectContext({ globs: ['src/*.ts'], maxFileSize: 100 }, dir);
+      assert.deepStrictEqual(bySize.files, ['src/a.ts']);
+      assert.strictEqual(bySize.skipped[0].path, 'src/big.ts');
+
+      const byTotal = await buildProjectContext({ files: ['src/big.ts', 'src/a.ts'], maxTotalSize: 200 }, dir);
+      assert.strictEqual(byTotal.truncated, true);
+      assert.ok(byTotal.text.includes('[...обрезано]'));
+      assert.deepStrictEqual(byTotal.skipped.map(f => f.path), ['src/a.ts']);
+    });
+
+    it('должен выбрасывать ошибку для отсутствующего файла', async () => {
+      await assert.rejects(
+        buildProjectContext({ files: ['missing.ts'] }, dir),
+        /Файл контекста не найден: missing.ts/
+      );
+    });
+
+    it('должен писать заголовки и причины пропуска на языке locale', async () => {
+      const context = await buildProjectContext({ globs: ['src/*'], text: 'Error log' }, dir, 'en');
+
+      assert.match(context.text, /^### Input\nError log/);
+      assert.deepStrictEqual(context.skipped, [{ path: 'src/logo.png', reason: 'binary file' }]);
+      await assert.rejects(
+        buildProjectContext({ files: ['missing.ts'] }, dir, 'en'),
+        /Context file not found: missing.ts/
+      );
+    });
+
+    it('должен добавлять git diff', { skip: spawnSync('git', ['--version']).status !== 0 }, async () => {
+      const git = (...args) => spawnSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], { cwd: dir });
+      git('init', '-q');
+      git('add', 'src/a.ts');
+      git('commit', '-q', '-m', 'init');
+      writeFileSync(join(dir, 'src', 'a.ts'), 'export const a = 42;\n');
+
+      const context = await buildProjectContext({ diff: true }, dir);
+      assert.match(context.text, /### git diff HEAD\n```diff\n/);
+      assert.ok(context.text.includes('+export const a = 42;'));
+    });
+
+    it('должен отклонять базу git diff, похожую на опцию', { skip: spawnSync('git', ['--version']).status !== 0 }, async () => {
+      spawnSync('git', ['init', '-q'], { cwd: dir });
+      const output = join(dir, 'pwned.txt');
+
+      await assert.rejects(
+        buildProjectContext({ diff: `--output=${output}` }, dir),
+        /Некорректная база git diff: --output=/
+      );
+      assert.strictEqual(existsSync(output), false);
+    });
+  });
+
+  describe('appendProjectContext', () => {
+    it('должен добавлять контекст, только если шаблон его не подставил', () => {
+      assert.strictEqual(appendProjectContext('Задача', 'ctx'), 'Задача\n\n## Контекст проекта\nctx');
+      assert.strictEqual(appendProjectContext('Задача ctx', 'ctx'), 'Задача ctx');
+      assert.strictEqual(appendProjectContext('Задача'), 'Задача');
+    });
+  });
+});
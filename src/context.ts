@@ -0,0 +1,281 @@
+/**
+ * @fileoverview Контекст проекта для задачи: файлы, glob-шаблоны, git diff, stdin
+ * @module opencode-consilium
+ */
+
+import { spawn } from 'child_process';
+import { existsSync, readdirSync, readFileSync, statSync } from 'fs';
+import { extname, join, relative, resolve, sep } from 'path';
+import type { Locale, ProjectContext, ProjectContextOptions } from './types.js';
+import { getMessages } from './i18n.js';
+
+/**
+ * Максимальный размер одного файла по умолчанию (байт)
+ */
+export const DEFAULT_MAX_FILE_SIZE = 100_000;
+
+/**
+ * Максимальный размер всего контекста по умолчанию (символов)
+ */
+export const DEFAULT_MAX_TOTAL_SIZE = 200_000;
+
+/**
+ * Исключения, которые действуют всегда
+ */
+export const DEFAULT_CONTEXT_IGNORE = [
+  '.git',
+  'node_modules',
+  'dist',
+  'build',
+  'coverage',
+  '.consilium',
+  'package-lock.json',
+  '*.lock',
+  '*.min.js',
+  '*.map'
+];
+
+/**
+ * Преобразует glob-шаблон в регулярное выражение
+ *
+ * `*` и `?` не пересекают `/`, `**` — любое число директорий.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        if (pattern[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Компилирует шаблон исключения по правилам .gitignore
+ *
+ * Шаблон без `/` совпадает с именем на любой глубине, `/` в начале привязывает к корню.
+ */
+function compileIgnorePattern(pattern: string): RegExp {
+  let normalized = pattern.replace(/\/+$/, '');
+  if (normalized.startsWith('/')) {
+    normalized = normalized.substring(1);
+  } else if (!normalized.includes('/')) {
+    normalized = `**/${normalized}`;
+  }
+  return globToRegExp(normalized);
+}
+
+/**
+ * Читает шаблоны из .gitignore рабочей директории
+ *
+ * Отрицания (`!`) не поддерживаются и пропускаются.
+ */
+function loadGitignore(cwd: string): string[] {
+  const path = join(cwd, '.gitignore');
+  if (!existsSync(path)) {
+    return [];
+  }
+
+  return readFileSync(path, 'utf-8')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#') && !line.startsWith('!'));
+}
+
+/**
+ * Проверяет, исключён ли путь или одна из его директорий
+ */
+function isIgnored(path: string, patterns: RegExp[]): boolean {
+  const segments = path.split('/');
+  for (let i = 1; i <= segments.length; i++) {
+    const prefix = segments.slice(0, i).join('/');
+    if (patterns.some(pattern => pattern.test(prefix))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Находит файлы по glob-шаблонам, обходя дерево без исключённых директорий
+ */
+export function expandGlobs(globs: string[], cwd: string, ignore: string[] = []): string[] {
+  const matchers = globs.map(glob => globToRegExp(glob.replace(/^\.\//, '')));
+  const ignored = [...DEFAULT_CONTEXT_IGNORE, ...loadGitignore(cwd), ...ignore].map(compileIgnorePattern);
+  const found: string[] = [];
+
+  const walk = (dir: string) => {
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+      const path = relative(cwd, join(dir, entry.name)).split(sep).join('/');
+      if (isIgnored(path, ignored)) continue;
+
+      if (entry.isDirectory()) {
+        walk(join(dir, entry.name));
+      } else if (entry.isFile() && matchers.some(matcher => matcher.test(path))) {
+        found.push(path);
+      }
+    }
+  };
+
+  walk(cwd);
+  return found.sort();
+}
+
+/**
+ * Получает git diff рабочей директории
+ *
+ * База, начинающаяся с `-`, отклоняется: git принял бы её за опцию (например, `--output=<файл>`).
+ */
+export function readGitDiff(cwd: string, base: string = 'HEAD', locale?: Locale): Promise<string> {
+  const { errors } = getMessages(locale);
+
+  if (base.startsWith('-')) {
+    return Promise.reject(new Error(errors.gitDiffBase(base)));
+  }
+
+  return new Promise((resolvePromise, reject) => {
+    const child = spawn('git', ['diff', base, '--'], {
+      cwd,
+      stdio: ['ignore', 'pipe', 'pipe'],
+      windowsHide: true
+    });
+
+    let stdout = '';
+    let stderr = '';
+    child.stdout.setEncoding('utf-8');
+    child.stdout.on('data', (data: string) => {
+      stdout += data;
+    });
+    child.stderr.on('data', (data: Buffer) => {
+      stderr += data.toString();
+    });
+
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolvePromise(stdout);
+      } else {
+        reject(new Error(errors.gitDiff(base, stderr.trim() || errors.gitExitCode(code))));
+      }
+    });
+
+    child.on('error', (err) => {
+      reject(new Error(errors.gitSpawn(err.message)));
+    });
+  });
+}
+
+/**
+ * Собирает контекст проекта в markdown для подстановки в промпты экспертов
+ *
+ * Явно перечисленные файлы не фильтруются исключениями, найденные по glob — фильтруются.
+ * Бинарные и слишком большие файлы пропускаются, всё, что не влезло в maxTotalSize, обрезается.
+ */
+export async function buildProjectContext(
+  options: ProjectContextOptions,
+  cwd: string = process.cwd(),
+  locale?: Locale
+): Promise<ProjectContext> {
+  const messages = getMessages(locale);
+  const maxFileSize = options.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+  const maxTotalSize = options.maxTotalSize ?? DEFAULT_MAX_TOTAL_SIZE;
+
+  const context: ProjectContext = { text: '', files: [], skipped: [], truncated: false };
+  const sections: string[] = [];
+  let size = 0;
+
+  // Возвращает false, если раздел уже не помещается
+  const addSection = (header: string, body: string, fence?: string): boolean => {
+    const remaining = maxTotalSize - size;
+    if (context.truncated || remaining <= header.length) {
+      context.truncated = true;
+      return false;
+    }
+
+    let content = body;
+    if (header.length + body.length > remaining) {
+      content = `${body.substring(0, remaining - header.length)}\n${messages.context.truncated}`;
+      context.truncated = true;
+    }
+
+    const section = fence !== undefined
+      ? `${header}\n\`\`\`${fence}\n${content}\n\`\`\``
+      : `${header}\n${content}`;
+    sections.push(section);
+    size += section.length;
+    return true;
+  };
+
+  if (options.text?.trim()) {
+    addSection(`### ${messages.context.input}`, options.text.trim());
+  }
+
+  if (options.diff) {
+    const base = typeof options.diff === 'string' ? options.diff : 'HEAD';
+    const diff = await readGitDiff(cwd, base, locale);
+    if (diff.trim()) {
+      addSection(`### git diff ${base}`, diff.trimEnd(), 'diff');
+    }
+  }
+
+  for (const file of options.files ?? []) {
+    if (!existsSync(resolve(cwd, file))) {
+      throw new Error(messages.errors.contextFileNotFound(file));
+    }
+  }
+
+  const paths = [...new Set([
+    ...(options.files ?? []).map(file => relative(cwd, resolve(cwd, file)).split(sep).join('/')),
+    ...(options.globs?.length ? expandGlobs(options.globs, cwd, options.ignore) : [])
+  ])];
+
+  for (const path of paths) {
+    const fullPath = resolve(cwd, path);
+    if (statSync(fullPath).size > maxFileSize) {
+      context.skipped.push({ path, reason: messages.context.tooLarge(maxFileSize) });
+      continue;
+    }
+
+    const buffer = readFileSync(fullPath);
+    // Нулевой байт в начале файла — признак бинарного содержимого
+    if (buffer.subarray(0, 8000).includes(0)) {
+      context.skipped.push({ path, reason: messages.context.binary });
+      continue;
+    }
+
+    if (!addSection(`### ${path}`, buffer.toString('utf-8').trimEnd(), extname(path).substring(1))) {
+      context.skipped.push({ path, reason: messages.context.totalLimit });
+      continue;
+    }
+    context.files.push(path);
+  }
+
+  context.text = sections.join('\n\n');
+  return context;
+}
+
+/**
+ * Добавляет контекст проекта к промпту, если шаблон не подставил его через ${context}
+ */
+export function appendProjectContext(prompt: string, context?: string, locale?: Locale): string {
+  if (!context || prompt.includes(context)) {
+    return prompt;
+  }
+  return `${prompt}\n\n## ${getMessages(locale).prompts.headings.projectContext}\n${context}`;
+}
@@ -3,17 +3,105 @@
  * @module opencode-consilium
  */
 
-import type { ConsiliumConfig, ExpertConfig, ChairConfig } from './types.js';
+import type { ConsiliumConfig, ExpertConfig, ChairConfig, DeliberationContext, Locale, PanelName, TemplateVars } from './types.js';
+import { renderTemplate, truncateText } from './template.js';
+import { DEFAULT_LOCALE, MESSAGES, getMessages } from './i18n.js';
 
 /**
  * Промпты экспертов по умолчанию
  */
-export const DEFAULT_EXPERT_PROMPTS: Record<string, string | ((task: string) => string)> = {
-  arch: (task: string) => `Как архитектор, оцени задачу кратко (3-5 предложений): ${task}`,
-  ux: (task: string) => `Как UX-специалист, оцени задачу кратко (3-5 предложений): ${task}`,
-  ba: (task: string) => `Как бизнес-аналитик, оцени задачу кратко (3-5 предложений): ${task}`,
-  sec: (task: string) => `Как эксперт по безопасности, оцени задачу кратко (3-5 предложений): ${task}`,
-  default: (task: string) => `Проанализируй задачу как эксперт (кратко, 3-5 предложений): ${task}`
+export const DEFAULT_EXPERT_PROMPTS: Record<string, string | ((task: string) => string)> = MESSAGES[DEFAULT_LOCALE].prompts.experts;
+
+/**
+ * Ответ эксперта в том виде, в каком он попадает в промпт
+ */
+type ExpertOpinion = { agent: string; text: string; data?: unknown; success?: boolean };
+
+/**
+ * Текст мнения эксперта для промпта
+ *
+ * Структурированный ответ передаётся целиком вместо обрезанного текста.
+ */
+const opinionText = ({ text, data }: ExpertOpinion, maxLength: number, locale?: Locale): string =>
+  data !== undefined
+    ? '```json\n' + JSON.stringify(data, null, 2) + '\n```'
+    : truncateText(text, maxLength, locale);
+
+/**
+ * Форматирует мнения ответивших экспертов для промпта председателя
+ *
+ * Заглушки ошибок не передаются — о неответивших сообщается отдельно.
+ */
+export const formatExpertOpinions = (
+  experts: ExpertOpinion[],
+  maxLength: number = 3000,
+  locale?: Locale
+): string => {
+  let opinions = '';
+
+  for (const expert of experts.filter(e => e.success !== false)) {
+    opinions += `### ${expert.agent.toUpperCase()}\n${opinionText(expert, maxLength, locale)}\n\n`;
+  }
+
+  return opinions;
+};
+
+/**
+ * Обязательные разделы ответа председателя по умолчанию
+ */
+export const DEFAULT_CHAIR_SECTIONS = MESSAGES[DEFAULT_LOCALE].prompts.chairSections;
+
+/**
+ * Шаблон промпта председателя по умолчанию (синтаксис renderTemplate)
+ */
+export const DEFAULT_CHAIR_PROMPT = MESSAGES[DEFAULT_LOCALE].prompts.chair;
+
+/**
+ * Настройки промпта председателя
+ */
+export interface ChairPromptOptions {
+  /** Максимальная длина ответа эксперта (по умолчанию 3000) */
+  maxLength?: number;
+  /** Обязательные разделы ответа (по умолчанию — из каталога языка) */
+  sections?: string[];
+  /** Язык встроенного шаблона и отметки об обрезке */
+  locale?: Locale;
+  /** Панель экспертов: вступление и разделы ответа по умолчанию */
+  panel?: PanelName;
+}
+
+/**
+ * Переменные шаблона председателя
+ *
+ * `${intro}` — вступление (своё у панели), `${opinions}` — мнения одним блоком,
+ * `${each answers}` — по одному (`${agent}`, `${title}`, `${text}`, `${truncated}`),
+ * `${missing}` — неответившие через запятую, `${experts}` — число экспертов,
+ * `${each sections}` — обязательные разделы ответа, `${panel}` — имя панели.
+ */
+export const buildChairTemplateVars = (
+  task: string,
+  experts: ExpertOpinion[],
+  { maxLength = 3000, sections, locale, panel }: ChairPromptOptions = {}
+): TemplateVars => {
+  const answered = experts.filter(e => e.success !== false);
+  const { prompts } = getMessages(locale);
+  const panelPrompts = panel ? prompts.panels[panel] : undefined;
+
+  return {
+    task,
+    intro: panelPrompts?.intro ?? prompts.chairIntro,
+    panel: panel ?? '',
+    opinions: formatExpertOpinions(experts, maxLength, locale).trimEnd(),
+    answers: answered.map(expert => ({
+      agent: expert.agent,
+      title: expert.agent.toUpperCase(),
+      text: opinionText(expert, maxLength, locale),
+      truncated: expert.data === undefined && expert.text.length > maxLength
+    })),
+    missing: experts.filter(e => e.success === false).map(e => e.agent).join(', '),
+    experts: experts.length,
+    sections: sections ?? panelPrompts?.sections ?? prompts.chairSections
+  };
 };
 
 /**
@@ -21,23 +109,89 @@ export const DEFAULT_EXPERT_PROMPTS: Record<string, string | ((task: string) =>
  */
 export const DEFAULT_CHAIR_PROMPT_TEMPLATE = (
   task: string,
-  experts: Array<{ agent: string; text: string }>
+  experts: ExpertOpinion[],
+  options: ChairPromptOptions = {}
+): string => renderTemplate(getMessages(options.locale).prompts.chair, buildChairTemplateVars(task, experts, options));
+
+/**
+ * Нумерованный список требований к ответу
+ */
+const formatRequirements = (heading: string, items: string[]): string =>
+  `## ${heading}\n${items.map((item, index) => `${index + 1}. ${item}`).join('\n')}`;
+
+/**
+ * Шаблон промпта для объединения нескольких синтезов (map-reduce, multi-chair)
+ */
+export const DEFAULT_MERGE_PROMPT_TEMPLATE = (
+  task: string,
+  drafts: Array<{ agent: string; text: string }>,
+  locale?: Locale
+): string => {
+  const { headings, merge } = getMessages(locale).prompts;
+
+  let prompt = `${merge.intro}\n\n`;
+  prompt += `## ${headings.task}\n${task}\n\n`;
+  prompt += `## ${merge.drafts}\n`;
+
+  drafts.forEach(({ text }, index) => {
+    prompt += `### ${merge.draft(index + 1)}\n${text}\n\n`;
+  });
+
+  prompt += formatRequirements(headings.requirements, merge.requirements);
+
+  return prompt;
+};
+
+/**
+ * Шаблон промпта раунда обсуждения по умолчанию
+ */
+export const DEFAULT_DELIBERATION_PROMPT_TEMPLATE = (
+  { task, round, own, others, projectContext }: DeliberationContext,
+  maxOpinionLength: number = 2000,
+  locale?: Locale
 ): string => {
-  let prompt = `Синтезируй мнения экспертов и составь итоговый план.\n\n`;
-  prompt += `## Задача\n${task}\n\n`;
-  prompt += `## Мнения экспертов\n`;
-  
+  const { headings, deliberation } = getMessages(locale).prompts;
+
+  let prompt = `${deliberation.intro(round)}\n\n`;
+  prompt += `## ${headings.task}\n${task}\n\n`;
+  if (projectContext) {
+    prompt += `## ${headings.projectContext}\n${projectContext}\n\n`;
+  }
+  prompt += `## ${deliberation.own}\n${own?.success ? truncateText(own.text, maxOpinionLength, locale) : deliberation.noAnswer}\n\n`;
+  prompt += `## ${deliberation.others}\n`;
+
+  for (const { agent, text } of others) {
+    prompt += `### ${agent.toUpperCase()}\n${truncateText(text, maxOpinionLength, locale)}\n\n`;
+  }
+
+  prompt += formatRequirements(headings.requirements, deliberation.requirements);
+
+  return prompt;
+};
+
+/**
+ * Шаблон промпта судьи согласия по умолчанию
+ */
+export const DEFAULT_CONSENSUS_PROMPT_TEMPLATE = (
+  task: string,
+  experts: Array<{ agent: string; text: string }>,
+  maxOpinionLength: number = 2000,
+  locale?: Locale
+): string => {
+  const { headings, consensus } = getMessages(locale).prompts;
+
+  let prompt = `${consensus.intro}\n\n`;
+  prompt += `## ${headings.task}\n${task}\n\n`;
+  prompt += `## ${headings.opinions}\n`;
+
   for (const { agent, text } of experts) {
-    const cleanText = text.substring(0, 3000);
-    prompt += `### ${agent.toUpperCase()}\n${cleanText}\n\n`;
+    prompt += `### ${agent}\n${truncateText(text, maxOpinionLength, locale)}\n\n`;
   }
-  
-  prompt += `## Требования к ответу\n`;
-  prompt += `1. **Резюме** (1-2 предложения)\n`;
-  prompt += `2. **Топ-3 приоритетных действия** с обоснованием\n`;
-  prompt += `3. **Главный риск** и митигация\n`;
-  prompt += `4. **Оценка трудозатрат** (если применимо)`;
-  
+
+  prompt += `## ${headings.responseFormat}\n`;
+  prompt += `${consensus.jsonOnly}\n`;
+  prompt += consensus.format;
+
   return prompt;
 };
 
@@ -56,7 +210,6 @@ export const DEFAULT_EXPERTS: ExpertConfig[] = [
  */
 export const DEFAULT_CHAIR: ChairConfig = {
   agent: 'consilium',
-  promptTemplate: DEFAULT_CHAIR_PROMPT_TEMPLATE,
   maxExpertTextLength: 3000
 };
 
@@ -91,7 +244,9 @@ export const DEFAULT_CONFIG: ConsiliumConfig = {
     expertRetries: 1,
     chairRetries: 1,
     delay: 1000,
-    exponentialBackoff: true
+    exponentialBackoff: true,
+    jitter: 0.2,
+    maxDelay: 60000
   },
   output: {
     file: 'consilium_result.txt',
@@ -99,6 +254,11 @@ export const DEFAULT_CONFIG: ConsiliumConfig = {
     progress: true,
     logLevel: 'info'
   },
+  deliberation: {
+    rounds: 1,
+    maxOpinionLength: 2000
+  },
+  invocation: 'agent',
   autoDiscoverAgents: true,
   opencodeConfigPath: 'opencode.json'
 };
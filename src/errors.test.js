@@ -0,0 +1,44 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { classifyAgentError, parseRetryAfter, isRetryable } from './errors.js';
+
+describe('errors.ts', () => {
+  describe('classifyAgentError', () => {
+    it('должен распознавать ошибки провайдера', () => {
+      assert.deepStrictEqual(classifyAgentError('Error: 429 Too Many Requests. Retry-After: 20'), {
+        errorCode: 'RATE_LIMIT',
+        retryAfter: 20000
+      });
+      assert.strictEqual(classifyAgentError('401 Unauthorized: invalid api key').errorCode, 'AUTH_ERROR');
+      assert.strictEqual(classifyAgentError('ProviderModelNotFoundError: model gpt-9 not found').errorCode, 'MODEL_NOT_FOUND');
+      assert.strictEqual(classifyAgentError('Error: fetch failed (ECONNRESET)').errorCode, 'NETWORK_ERROR');
+    });
+
+    it('должен отличать отсутствующего агента от отсутствующей модели', () => {
+      assert.strictEqual(classifyAgentError('Agent "reviewer" not found').errorCode, 'AGENT_NOT_FOUND');
+    });
+
+    it('должен возвращать null для нераспознанного вывода', () => {
+      assert.strictEqual(classifyAgentError(''), null);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('должен понимать разные единицы', () => {
+      assert.strictEqual(parseRetryAfter('Please try again in 1.5 seconds'), 1500);
+      assert.strictEqual(parseRetryAfter('retry in 500ms'), 500);
+      assert.strictEqual(parseRetryAfter('{"retry_after": 2}'), 2000);
+      assert.strictEqual(parseRetryAfter('Retry after 1 minute'), 60000);
+      assert.strictEqual(parseRetryAfter('no hint'), undefined);
+    });
+  });
+
+  describe('isRetryable', () => {
+    it('должен повторять по списку retryOn', () => {
+      assert.strictEqual(isRetryable({ errorCode: 'RATE_LIMIT' }, {}), true);
+      assert.strictEqual(isRetryable({ errorCode: 'AUTH_ERROR' }, {}), false);
+      assert.strictEqual(isRetryable({ errorCode: 'TIMEOUT' }, { retryOn: ['RATE_LIMIT'] }), false);
+      assert.strictEqual(isRetryable({ errorCode: 'CANCELLED' }, { retryOn: ['CANCELLED'] }), false);
+    });
+  });
+});
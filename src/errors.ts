@@ -0,0 +1,76 @@
+/**
+ * @fileoverview Классификация ошибок агентов и политика повторов
+ * @module opencode-consilium
+ */
+
+import type { AgentErrorCode, AgentResult, RetryConfig } from './types.js';
+
+/**
+ * Ошибки, которые повторяются по умолчанию
+ */
+export const DEFAULT_RETRY_ON: AgentErrorCode[] = [
+  'TIMEOUT',
+  'EMPTY_RESPONSE',
+  'PARSE_ERROR',
+  'RATE_LIMIT',
+  'NETWORK_ERROR'
+];
+
+/**
+ * Признаки ошибок в выводе opencode, от более конкретных к общим
+ */
+const ERROR_PATTERNS: Array<[AgentErrorCode, RegExp]> = [
+  ['AGENT_NOT_FOUND', /agent\b[^\n]*\bnot found|unknown agent|no such agent/i],
+  ['MODEL_NOT_FOUND', /model\b[^\n]*\bnot found|ModelNotFound|unknown model/i],
+  ['AUTH_ERROR', /\b(401|403)\b|unauthori[sz]ed|forbidden|invalid[ _-]?api[ _-]?key|authentication/i],
+  ['RATE_LIMIT', /\b429\b|rate[ _-]?limit|too many requests|quota|overloaded/i],
+  ['NETWORK_ERROR', /ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|socket hang up|fetch failed|network|\b(502|503|504)\b/i]
+];
+
+/**
+ * Извлекает подсказку Retry-After в миллисекундах
+ *
+ * Понимает `Retry-After: 30`, `retry after 30s`, `try again in 1.5 seconds`, `retry in 500ms`.
+ */
+export function parseRetryAfter(output: string): number | undefined {
+  const match = output.match(
+    /(?:retry[ _-]?after|try again in|retry in)["':=\s]*(\d+(?:\.\d+)?)\s*(ms|milliseconds?|s|sec|seconds?|m|min|minutes?)?\b/i
+  );
+  if (!match) {
+    return undefined;
+  }
+
+  const value = parseFloat(match[1]);
+  const unit = (match[2] ?? 's').toLowerCase();
+
+  if (unit.startsWith('ms') || unit.startsWith('milli')) return Math.round(value);
+  if (unit.startsWith('m')) return Math.round(value * 60_000);
+  return Math.round(value * 1000);
+}
+
+/**
+ * Определяет тип ошибки по stdout/stderr opencode
+ */
+export function classifyAgentError(output: string): { errorCode: AgentErrorCode; retryAfter?: number } | null {
+  for (const [errorCode, pattern] of ERROR_PATTERNS) {
+    if (pattern.test(output)) {
+      const retryAfter = parseRetryAfter(output);
+      return retryAfter !== undefined ? { errorCode, retryAfter } : { errorCode };
+    }
+  }
+  return null;
+}
+
+/**
+ * Нужно ли повторять неуспешный вызов
+ */
+export function isRetryable(result: AgentResult, retry: Pick<RetryConfig, 'retryOn'>): boolean {
+  if (result.errorCode === 'CANCELLED') {
+    return false;
+  }
+  // Неклассифицированная ошибка повторяется, как и раньше
+  if (result.errorCode === undefined) {
+    return true;
+  }
+  return (retry.retryOn ?? DEFAULT_RETRY_ON).includes(result.errorCode);
+}
@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import {
+  MESSAGES,
+  SUPPORTED_LOCALES,
+  isLocale,
+  detectLocale,
+  resolveLocale,
+  appendAnswerLanguage
+} from './i18n.js';
+import { truncateText } from './template.js';
+
+describe('i18n.ts', () => {
+  describe('detectLocale', () => {
+    it('должен определять язык по LC_ALL, LC_MESSAGES и LANG', () => {
+      assert.strictEqual(detectLocale({ LANG: 'en_US.UTF-8' }), 'en');
+      assert.strictEqual(detectLocale({ LC_ALL: 'zh_CN.UTF-8', LANG: 'en_US.UTF-8' }), 'zh');
+      assert.strictEqual(detectLocale({ LC_MESSAGES: 'en', LANG: 'zh_CN' }), 'en');
+    });
+
+    it('должен возвращать русский для неподдерживаемых языков', () => {
+      assert.strictEqual(detectLocale({ LANG: 'de_DE.UTF-8' }), 'ru');
+      assert.strictEqual(detectLocale({ LANG: 'C' }), 'ru');
+      assert.strictEqual(detectLocale({}), 'ru');
+    });
+  });
+
+  describe('isLocale', () => {
+    it('должен принимать только поддерживаемые языки', () => {
+      assert.ok(SUPPORTED_LOCALES.every(isLocale));
+      assert.strictEqual(isLocale('de'), false);
+      assert.strictEqual(isLocale(undefined), false);
+      assert.strictEqual(resolveLocale({ locale: 'de' }), 'ru');
+    });
+  });
+
+  describe('appendAnswerLanguage', () => {
+    it('должен подставлять название языка из каталога или строку как есть', () => {
+      assert.strictEqual(appendAnswerLanguage('Промпт', {}), 'Промпт');
+      assert.strictEqual(appendAnswerLanguage('Prompt', { locale: 'en', answerLanguage: 'zh' }), 'Prompt\n\nAnswer in Chinese.');
+      assert.strictEqual(appendAnswerLanguage('Prompt', { locale: 'en', answerLanguage: 'German' }), 'Prompt\n\nAnswer in German.');
+    });
+  });
+
+  describe('MESSAGES', () => {
+    it('должен содержать одинаковые ключи во всех каталогах', () => {
+      const keys = (value) => Object.entries(value).flatMap(([key, item]) =>
+        item && typeof item === 'object' && !Array.isArray(item)
+          ? keys(item).map(nested => `${key}.${nested}`)
+          : [key]
+      ).sort();
+
+      for (const locale of SUPPORTED_LOCALES) {
+        assert.deepStrictEqual(keys(MESSAGES[locale]), keys(MESSAGES.ru), locale);
+      }
+    });
+
+    it('должен локализовать отметку об обрезке', () => {
+      assert.strictEqual(truncateText('abcdefghij', 5, 'en'), 'abcde\n[...truncated: 5 of 10 characters]');
+    });
+  });
+});
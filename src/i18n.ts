@@ -0,0 +1,998 @@
+/**
+ * @fileoverview Локализация: язык промптов и вывода, каталоги сообщений
+ * @module opencode-consilium
+ */
+
+import type { ConsiliumConfig, Locale, PanelName } from './types.js';
+
+/**
+ * Поддерживаемые языки
+ */
+export const SUPPORTED_LOCALES: readonly Locale[] = ['ru', 'en', 'zh'];
+
+/**
+ * Язык по умолчанию
+ */
+export const DEFAULT_LOCALE: Locale = 'ru';
+
+/**
+ * Каталог сообщений библиотеки: промпты и вывод результата
+ */
+export interface Messages {
+  /** Названия языков для инструкции «отвечай на языке …» */
+  languageNames: Record<Locale, string>;
+  /** Встроенные промпты */
+  prompts: {
+    /** Промпты экспертов по ролям; default — для остальных */
+    experts: Record<string, (task: string) => string>;
+    /** Шаблон председателя (синтаксис renderTemplate) */
+    chair: string;
+    /** Вступление промпта председателя (${intro}) */
+    chairIntro: string;
+    /** Обязательные разделы ответа председателя */
+    chairSections: string[];
+    /** Вступление и разделы ответа председателя для панелей экспертов */
+    panels: Record<PanelName, { title: string; intro: string; sections: string[] }>;
+    /** Заголовки разделов промптов */
+    headings: {
+      task: string;
+      opinions: string;
+      requirements: string;
+      responseFormat: string;
+      projectContext: string;
+    };
+    /** Объединение черновиков синтеза */
+    merge: {
+      intro: string;
+      drafts: string;
+      draft: (index: number) => string;
+      requirements: string[];
+    };
+    /** Раунд обсуждения */
+    deliberation: {
+      intro: (round: number) => string;
+      own: string;
+      noAnswer: string;
+      others: string;
+      requirements: string[];
+    };
+    /** Судья согласия */
+    consensus: {
+      intro: string;
+      jsonOnly: string;
+      format: string;
+    };
+    /** Структурированный ответ */
+    schema: {
+      jsonOnly: string;
+      invalid: string;
+    };
+    /** Описания полей голоса */
+    vote: {
+      choice: string;
+      choiceFree: string;
+      rationale: string;
+    };
+    /** Инструкция о языке ответа */
+    answerLanguage: (language: string) => string;
+    /** Отметка об обрезке текста */
+    truncated: (kept: number, total: number) => string;
+  };
+  /** Вывод результата */
+  output: {
+    title: string;
+    time: string;
+    seconds: string;
+    usage: string;
+    synthesis: string;
+    afterFailure: (agents: string) => string;
+    notFinished: string;
+    expertOpinions: string;
+    fromCache: string;
+    session: string;
+    consensus: string;
+    score: string;
+    round: (round: number) => string;
+    roundTitle: (round: number) => string;
+    thresholdReached: string;
+    dissenters: string;
+    differences: string;
+    none: string;
+    discussion: string;
+    reason: string;
+    cancelled: string;
+    chairFailed: string;
+    quorumFailed: string;
+    pending: string;
+    resume: string;
+    noExpertAnswers: string;
+    synthesisUnavailable: (chairs: string) => string;
+    chairFallback: string;
+    usageLine: (input: number, output: number) => string;
+    cacheTokens: (read: number, write: number) => string;
+    tokens: string;
+    saved: (path: string) => string;
+    vote: {
+      title: string;
+      decision: string;
+      tie: string;
+      noVotes: string;
+      rationales: string;
+      weight: string;
+      abstained: string;
+    };
+  };
+  /** Контекст проекта */
+  context: {
+    /** Заголовок текста из stdin */
+    input: string;
+    /** Отметка об обрезке контекста */
+    truncated: string;
+    /** Причины пропуска файлов */
+    tooLarge: (maxFileSize: number) => string;
+    binary: string;
+    totalLimit: string;
+  };
+  /** Предупреждения загрузки конфигурации */
+  warnings: {
+    noExperts: string;
+    duplicateExperts: (names: string) => string;
+    expertTimeout: string;
+    chairTimeout: string;
+    noChair: string;
+    chairTemplate: (message: string) => string;
+    maxExpertTextLength: string;
+    unknownLocale: (locale: string, supported: string) => string;
+    unknownBackend: (backend: string) => string;
+    unknownInvocation: (field: string, value: string) => string;
+    unknownSynthesis: (strategy: string) => string;
+    maxConcurrency: string;
+    rateLimit: (key: string) => string;
+    quorumUnknownExperts: (names: string) => string;
+    quorumUnreachable: (min: number, experts: number) => string;
+    consensusThreshold: (threshold: number) => string;
+    readError: (path: string, message: string) => string;
+    unknownPanel: (panel: string) => string;
+    promptFileMissing: (owner: string, file: string) => string;
+    /** Владелец файла промпта председателя в promptFileMissing */
+    chair: string;
+  };
+  /** Тексты ошибок */
+  errors: {
+    templateElse: string;
+    templateUnmatched: (token: string, opening: string) => string;
+    templateUnclosed: (block: string) => string;
+    templateCondition: (condition: string) => string;
+    unknownPartial: (name: string) => string;
+    partialDepth: (name: string) => string;
+    promptFileNotFound: (path: string) => string;
+    invalidVar: (assignment: string) => string;
+    unknownPanel: (panel: string) => string;
+    contextFileNotFound: (file: string) => string;
+    gitDiff: (base: string, details: string) => string;
+    gitDiffBase: (base: string) => string;
+    gitExitCode: (code: number | null) => string;
+    gitSpawn: (message: string) => string;
+    alreadyRunning: (status: string) => string;
+    opencodeNotFound: string;
+    backendUnavailable: (backend: string) => string;
+    noActiveExperts: string;
+    unknownBackend: (backend: string) => string;
+    unknownSynthesis: (strategy: string) => string;
+    resultFileNotFound: (path: string) => string;
+    noSavedState: (path: string) => string;
+    quorumNotMet: (reasons: string) => string;
+    quorumAnswered: (answered: number, needed: number) => string;
+    quorumMissingRequired: (experts: string) => string;
+    budgetCost: (cost: number, maxCost: number) => string;
+    budgetTokens: (tokens: number, maxTokens: number) => string;
+    /** Ошибка в событии OpenCode без описания */
+    unknownError: string;
+  };
+  /** Тексты-заглушки в AgentResult.text и ConsiliumResult.text неудачных вызовов */
+  results: {
+    cancelled: string;
+    runCancelled: string;
+    chairNotStarted: string;
+    timeout: (agent: string) => string;
+    emptyResponse: (agent: string) => string;
+    spawnError: (message: string) => string;
+    attemptsExhausted: string;
+    schemaMismatch: (errors: string) => string;
+  };
+  /** Ошибки проверки структурированного ответа; попадают и в промпт повтора */
+  validation: {
+    noJson: string;
+    invalidJson: (message: string) => string;
+    typeMismatch: (path: string, expected: string, actual: string) => string;
+    notInEnum: (path: string, options: string) => string;
+    belowMinimum: (path: string, minimum: number) => string;
+    aboveMaximum: (path: string, maximum: number) => string;
+    tooFewItems: (path: string, minItems: number) => string;
+    tooManyItems: (path: string, maxItems: number) => string;
+    missingField: (path: string) => string;
+  };
+}
+
+const ru: Messages = {
+  languageNames: { ru: 'русский', en: 'английский', zh: 'китайский' },
+  prompts: {
+    experts: {
+      arch: (task) => `Как архитектор, оцени задачу кратко (3-5 предложений): ${task}`,
+      ux: (task) => `Как UX-специалист, оцени задачу кратко (3-5 предложений): ${task}`,
+      ba: (task) => `Как бизнес-аналитик, оцени задачу кратко (3-5 предложений): ${task}`,
+      sec: (task) => `Как эксперт по безопасности, оцени задачу кратко (3-5 предложений): ${task}`,
+      perf: (task) => `Как эксперт по производительности, оцени задачу кратко (3-5 предложений): узкие места, нагрузка, задержки. ${task}`,
+      qa: (task) => `Как QA-инженер, оцени задачу кратко (3-5 предложений): тестируемость, пограничные случаи, регрессии. ${task}`,
+      devops: (task) => `Как DevOps/SRE-инженер, оцени задачу кратко (3-5 предложений): развёртывание, наблюдаемость, надёжность. ${task}`,
+      data: (task) => `Как инженер данных, оцени задачу кратко (3-5 предложений): модель данных, миграции, аналитика. ${task}`,
+      legal: (task) => `Как эксперт по праву и комплаенсу, оцени задачу кратко (3-5 предложений): персональные данные, лицензии, регуляторные требования. ${task}`,
+      a11y: (task) => `Как эксперт по доступности, оцени задачу кратко (3-5 предложений): WCAG, клавиатура, экранные дикторы. ${task}`,
+      dx: (task) => `Как эксперт по опыту разработчиков (DX), оцени задачу кратко (3-5 предложений): API, документация, удобство поддержки. ${task}`,
+      finops: (task) => `Как FinOps-эксперт, оцени задачу кратко (3-5 предложений): стоимость инфраструктуры и способы её снизить. ${task}`,
+      default: (task) => `Проанализируй задачу как эксперт (кратко, 3-5 предложений): ${task}`
+    },
+    chair: `\${intro}
+
+## Задача
+\${task}
+
+## Мнения экспертов
+\${each answers}### \${title}
+\${text}
+
+\${/each}\${if missing}## Не ответили
+\${missing} — их мнения отсутствуют, учти это в оценке рисков.
+
+\${/if}## Требования к ответу
+\${each sections}\${index}. \${item}\${if !last}
+\${/if}\${/each}`,
+    chairIntro: 'Синтезируй мнения экспертов и составь итоговый план.',
+    chairSections: [
+      '**Резюме** (1-2 предложения)',
+      '**Топ-3 приоритетных действия** с обоснованием',
+      '**Главный риск** и митигация',
+      '**Оценка трудозатрат** (если применимо)'
+    ],
+    panels: {
+      'code-review': {
+        title: 'Ревью кода',
+        intro: 'Сведи замечания экспертов в итоговое ревью изменений.',
+        sections: [
+          '**Вердикт**: принять, принять с правками или отклонить',
+          '**Блокирующие замечания** с указанием места в коде',
+          '**Некритичные улучшения**',
+          '**Чего не хватает в тестах**'
+        ]
+      },
+      'product-discovery': {
+        title: 'Исследование продукта',
+        intro: 'Сведи мнения экспертов в итоги исследования продуктовой идеи.',
+        sections: [
+          '**Проблема и целевые пользователи** (1-2 предложения)',
+          '**Топ-3 гипотезы** и как их проверить',
+          '**Границы MVP**',
+          '**Риски и открытые вопросы**'
+        ]
+      },
+      'incident-postmortem': {
+        title: 'Разбор инцидента',
+        intro: 'Сведи мнения экспертов в разбор инцидента без поиска виноватых.',
+        sections: [
+          '**Краткое описание** инцидента и его влияния',
+          '**Корневая причина** и способствующие факторы',
+          '**Что сработало и что нет** при обнаружении и восстановлении',
+          '**Действия** с приоритетом, чтобы инцидент не повторился'
+        ]
+      }
+    },
+    headings: {
+      task: 'Задача',
+      opinions: 'Мнения экспертов',
+      requirements: 'Требования к ответу',
+      responseFormat: 'Формат ответа',
+      projectContext: 'Контекст проекта'
+    },
+    merge: {
+      intro: 'Несколько председателей независимо синтезировали мнения экспертов. Объедини их в один итоговый план.',
+      drafts: 'Черновики синтеза',
+      draft: (index) => `Черновик ${index}`,
+      requirements: [
+        'Сохрани то, в чём черновики сходятся',
+        'Разреши противоречия и кратко объясни выбор',
+        'Итоговый план в формате исходных черновиков'
+      ]
+    },
+    deliberation: {
+      intro: (round) => `Раунд обсуждения ${round}. Коллеги высказались по задаче, пересмотри свою позицию.`,
+      own: 'Твоё предыдущее мнение',
+      noAnswer: '(нет ответа)',
+      others: 'Мнения других экспертов',
+      requirements: [
+        'С чем согласен и почему',
+        'Что оспариваешь и почему',
+        '**Итоговая позиция** (3-5 предложений)'
+      ]
+    },
+    consensus: {
+      intro: 'Оцени, насколько эксперты согласны между собой. Не решай задачу сам.',
+      jsonOnly: 'Ответь только JSON без пояснений:',
+      format: '{"score": <число от 0 до 1>, "dissenters": [<имена несогласных экспертов>], "summary": "<суть расхождений>"}'
+    },
+    schema: {
+      jsonOnly: 'Ответь только JSON, соответствующий схеме, без пояснений вокруг:',
+      invalid: 'Предыдущий ответ не прошёл проверку:'
+    },
+    vote: {
+      choice: 'Выбранный вариант, ровно как в списке',
+      choiceFree: 'Выбранный вариант, кратко',
+      rationale: 'Обоснование выбора (2-3 предложения)'
+    },
+    answerLanguage: (language) => `Отвечай на языке: ${language}.`,
+    truncated: (kept, total) => `[...обрезано: ${kept} из ${total} символов]`
+  },
+  output: {
+    title: 'Результат консилиума',
+    time: 'Время выполнения',
+    seconds: 'с',
+    usage: 'Расход',
+    synthesis: 'Синтез',
+    afterFailure: (agents) => `после отказа: ${agents}`,
+    notFinished: 'Консилиум не завершён',
+    expertOpinions: 'Мнения экспертов',
+    fromCache: 'из кэша',
+    session: 'Сессия OpenCode',
+    consensus: 'Согласие экспертов',
+    score: 'Оценка',
+    round: (round) => `раунд ${round}`,
+    roundTitle: (round) => `Раунд ${round}`,
+    thresholdReached: 'порог достигнут',
+    dissenters: 'Несогласные',
+    differences: 'Расхождения',
+    none: 'нет',
+    discussion: 'Ход обсуждения',
+    reason: 'Причина',
+    cancelled: 'запуск отменён',
+    chairFailed: 'ошибка председателя',
+    quorumFailed: 'кворум не набран',
+    pending: 'Ожидают ответа',
+    resume: 'Продолжить',
+    noExpertAnswers: '[Нет ответов экспертов]',
+    synthesisUnavailable: (chairs) => `Синтез недоступен (${chairs}), ниже мнения экспертов без обработки.`,
+    chairFallback: 'председатель',
+    usageLine: (input, output) => `${input} вх. / ${output} вых.`,
+    cacheTokens: (read, write) => `кэш ${read}+${write}`,
+    tokens: 'токенов',
+    saved: (path) => `💾 Результат сохранён: ${path}`,
+    vote: {
+      title: 'Итоги голосования',
+      decision: 'Решение',
+      tie: 'не принято — равенство голосов',
+      noVotes: 'не принято — нет голосов',
+      rationales: 'Обоснования',
+      weight: 'вес',
+      abstained: 'Не проголосовали'
+    }
+  },
+  context: {
+    input: 'Ввод',
+    truncated: '[...обрезано]',
+    tooLarge: (maxFileSize) => `больше ${maxFileSize} байт`,
+    binary: 'бинарный файл',
+    totalLimit: 'превышен общий лимит контекста'
+  },
+  warnings: {
+    noExperts: 'Список экспертов пуст. Добавьте хотя бы одного эксперта.',
+    duplicateExperts: (names) => `Обнаружены дубликаты экспертов: ${names}`,
+    expertTimeout: 'Таймаут эксперта слишком маленький (< 10 сек). Возможны ложные таймауты.',
+    chairTimeout: 'Таймаут председателя слишком маленький (< 30 сек). Возможны ложные таймауты.',
+    noChair: 'Не указан агент-председатель. Используется значение по умолчанию.',
+    chairTemplate: (message) => `Шаблон председателя: ${message}`,
+    maxExpertTextLength: 'chair.maxExpertTextLength должен быть больше 0.',
+    unknownLocale: (locale, supported) => `Неизвестный язык: ${locale}. Допустимо: ${supported}.`,
+    unknownBackend: (backend) => `Неизвестный бэкенд агентов: ${backend}. Допустимо: opencode, mock.`,
+    unknownInvocation: (field, value) => `Неизвестный режим вызова в ${field}: ${value}. Допустимо: agent, subagent, default. Используется режим agent.`,
+    unknownSynthesis: (strategy) => `Неизвестная стратегия синтеза: ${strategy}. Допустимо: chair, concat, map-reduce, vote, multi-chair.`,
+    maxConcurrency: 'maxConcurrency меньше 1. Ограничение параллельности не применяется.',
+    rateLimit: (key) => `Лимит запросов для ${key} должен быть больше 0. Лимит не применяется.`,
+    quorumUnknownExperts: (names) => `Обязательные эксперты кворума не найдены: ${names}`,
+    quorumUnreachable: (min, experts) => `Кворум ${min} больше числа экспертов (${experts}) и недостижим.`,
+    consensusThreshold: (threshold) => `Порог согласия ${threshold} вне диапазона (0, 1]. Обсуждение не будет остановлено досрочно.`,
+    readError: (path, message) => `Ошибка при чтении ${path}: ${message}`,
+    unknownPanel: (panel) => `Неизвестная панель экспертов: ${panel}. Используются эксперты из конфига.`,
+    promptFileMissing: (owner, file) => `Файл промпта ${owner} не найден: ${file}. Используется промпт из конфига или встроенный.`,
+    chair: 'председателя'
+  },
+  errors: {
+    templateElse: 'Ошибка шаблона: ${else} без ${if} или ${each}',
+    templateUnmatched: (token, opening) => `Ошибка шаблона: \${${token}} без \${${opening}}`,
+    templateUnclosed: (block) => `Ошибка шаблона: не закрыт \${${block}}`,
+    templateCondition: (condition) => `Ошибка шаблона: некорректное условие ${condition}`,
+    unknownPartial: (name) => `Неизвестный фрагмент шаблона: ${name}`,
+    partialDepth: (name) => `Слишком глубокая вложенность фрагментов шаблона: ${name}`,
+    promptFileNotFound: (path) => `Файл промпта не найден: ${path}`,
+    invalidVar: (assignment) => `Некорректная переменная шаблона: ${assignment}. Ожидается имя=значение`,
+    unknownPanel: (panel) => `Неизвестная панель экспертов: ${panel}`,
+    contextFileNotFound: (file) => `Файл контекста не найден: ${file}`,
+    gitDiff: (base, details) => `Не удалось получить git diff ${base}: ${details}`,
+    gitDiffBase: (base) => `Некорректная база git diff: ${base} (не может начинаться с -)`,
+    gitExitCode: (code) => `код ${code}`,
+    gitSpawn: (message) => `Не удалось запустить git: ${message}`,
+    alreadyRunning: (status) => `Consilium уже запущен (статус: ${status})`,
+    opencodeNotFound: 'OpenCode CLI не найден. Установите opencode-cli.',
+    backendUnavailable: (backend) => `Бэкенд агентов ${backend} недоступен`,
+    noActiveExperts: 'Нет активных экспертов для консилиума',
+    unknownBackend: (backend) => `Неизвестный бэкенд агентов: ${backend}`,
+    unknownSynthesis: (strategy) => `Неизвестная стратегия синтеза: ${strategy}`,
+    resultFileNotFound: (path) => `Файл результата не найден: ${path}`,
+    noSavedState: (path) => `В файле ${path} нет сохранённого состояния консилиума`,
+    quorumNotMet: (reasons) => `Кворум не набран: ${reasons}`,
+    quorumAnswered: (answered, needed) => `ответили ${answered} из ${needed} необходимых экспертов`,
+    quorumMissingRequired: (experts) => `нет ответа обязательных экспертов: ${experts}`,
+    budgetCost: (cost, maxCost) => `Превышен бюджет: $${cost.toFixed(4)} > $${maxCost}`,
+    budgetTokens: (tokens, maxTokens) => `Превышен бюджет: ${tokens} токенов > ${maxTokens}`,
+    unknownError: 'Неизвестная ошибка'
+  },
+  results: {
+    cancelled: '[Отменено]',
+    runCancelled: '[Консилиум отменён]',
+    chairNotStarted: '[Не запускался]',
+    timeout: (agent) => `[Таймаут ${agent}]`,
+    emptyResponse: (agent) => `[Агент ${agent} не вернул текст]`,
+    spawnError: (message) => `[Ошибка: ${message}]`,
+    attemptsExhausted: '[Все попытки исчерпаны]',
+    schemaMismatch: (errors) => `[Ответ не соответствует схеме: ${errors}]`
+  },
+  validation: {
+    noJson: 'В ответе нет JSON',
+    invalidJson: (message) => `Некорректный JSON: ${message}`,
+    typeMismatch: (path, expected, actual) => `${path}: ожидался ${expected}, получен ${actual}`,
+    notInEnum: (path, options) => `${path}: значение не входит в ${options}`,
+    belowMinimum: (path, minimum) => `${path}: меньше ${minimum}`,
+    aboveMaximum: (path, maximum) => `${path}: больше ${maximum}`,
+    tooFewItems: (path, minItems) => `${path}: меньше ${minItems} элементов`,
+    tooManyItems: (path, maxItems) => `${path}: больше ${maxItems} элементов`,
+    missingField: (path) => `${path}: обязательное поле отсутствует`
+  }
+};
+
+const en: Messages = {
+  languageNames: { ru: 'Russian', en: 'English', zh: 'Chinese' },
+  prompts: {
+    experts: {
+      arch: (task) => `As a software architect, assess the task briefly (3-5 sentences): ${task}`,
+      ux: (task) => `As a UX specialist, assess the task briefly (3-5 sentences): ${task}`,
+      ba: (task) => `As a business analyst, assess the task briefly (3-5 sentences): ${task}`,
+      sec: (task) => `As a security expert, assess the task briefly (3-5 sentences): ${task}`,
+      perf: (task) => `As a performance engineer, assess the task briefly (3-5 sentences): bottlenecks, load, latency. ${task}`,
+      qa: (task) => `As a QA engineer, assess the task briefly (3-5 sentences): testability, edge cases, regressions. ${task}`,
+      devops: (task) => `As a DevOps/SRE engineer, assess the task briefly (3-5 sentences): deployment, observability, reliability. ${task}`,
+      data: (task) => `As a data engineer, assess the task briefly (3-5 sentences): data model, migrations, analytics. ${task}`,
+      legal: (task) => `As a legal and compliance expert, assess the task briefly (3-5 sentences): personal data, licenses, regulations. ${task}`,
+      a11y: (task) => `As an accessibility expert, assess the task briefly (3-5 sentences): WCAG, keyboard, screen readers. ${task}`,
+      dx: (task) => `As a developer experience (DX) expert, assess the task briefly (3-5 sentences): APIs, documentation, maintainability. ${task}`,
+      finops: (task) => `As a FinOps expert, assess the task briefly (3-5 sentences): infrastructure cost and how to reduce it. ${task}`,
+      default: (task) => `Analyze the task as an expert (briefly, 3-5 sentences): ${task}`
+    },
+    chair: `\${intro}
+
+## Task
+\${task}
+
+## Expert opinions
+\${each answers}### \${title}
+\${text}
+
+\${/each}\${if missing}## No answer
+\${missing} — their opinions are missing, take this into account when assessing risks.
+
+\${/if}## Answer requirements
+\${each sections}\${index}. \${item}\${if !last}
+\${/if}\${/each}`,
+    chairIntro: 'Synthesize the expert opinions into a final plan.',
+    chairSections: [
+      '**Summary** (1-2 sentences)',
+      '**Top 3 priority actions** with rationale',
+      '**Main risk** and mitigation',
+      '**Effort estimate** (if applicable)'
+    ],
+    panels: {
+      'code-review': {
+        title: 'Code review',
+        intro: 'Combine the expert remarks into a final review of the change.',
+        sections: [
+          '**Verdict**: approve, approve with changes or reject',
+          '**Blocking issues** with their location in the code',
+          '**Non-blocking improvements**',
+          '**Missing tests**'
+        ]
+      },
+      'product-discovery': {
+        title: 'Product discovery',
+        intro: 'Combine the expert opinions into the findings of a product discovery.',
+        sections: [
+          '**Problem and target users** (1-2 sentences)',
+          '**Top 3 hypotheses** and how to validate them',
+          '**MVP scope**',
+          '**Risks and open questions**'
+        ]
+      },
+      'incident-postmortem': {
+        title: 'Incident postmortem',
+        intro: 'Combine the expert opinions into a blameless incident postmortem.',
+        sections: [
+          '**Summary** of the incident and its impact',
+          '**Root cause** and contributing factors',
+          '**What went well and what did not** in detection and recovery',
+          '**Action items** by priority to prevent a recurrence'
+        ]
+      }
+    },
+    headings: {
+      task: 'Task',
+      opinions: 'Expert opinions',
+      requirements: 'Answer requirements',
+      responseFormat: 'Response format',
+      projectContext: 'Project context'
+    },
+    merge: {
+      intro: 'Several chairs synthesized the expert opinions independently. Merge them into one final plan.',
+      drafts: 'Synthesis drafts',
+      draft: (index) => `Draft ${index}`,
+      requirements: [
+        'Keep what the drafts agree on',
+        'Resolve contradictions and briefly explain the choice',
+        'Final plan in the format of the original drafts'
+      ]
+    },
+    deliberation: {
+      intro: (round) => `Deliberation round ${round}. Your colleagues have weighed in on the task, revisit your position.`,
+      own: 'Your previous opinion',
+      noAnswer: '(no answer)',
+      others: 'Other experts\' opinions',
+      requirements: [
+        'What you agree with and why',
+        'What you dispute and why',
+        '**Final position** (3-5 sentences)'
+      ]
+    },
+    consensus: {
+      intro: 'Assess how much the experts agree with each other. Do not solve the task yourself.',
+      jsonOnly: 'Reply with JSON only, no explanations:',
+      format: '{"score": <number from 0 to 1>, "dissenters": [<names of dissenting experts>], "summary": "<essence of the disagreement>"}'
+    },
+    schema: {
+      jsonOnly: 'Reply with JSON matching the schema only, no surrounding explanations:',
+      invalid: 'The previous answer failed validation:'
+    },
+    vote: {
+      choice: 'The chosen option, exactly as listed',
+      choiceFree: 'The chosen option, briefly',
+      rationale: 'Rationale for the choice (2-3 sentences)'
+    },
+    answerLanguage: (language) => `Answer in ${language}.`,
+    truncated: (kept, total) => `[...truncated: ${kept} of ${total} characters]`
+  },
+  output: {
+    title: 'Consilium result',
+    time: 'Duration',
+    seconds: 's',
+    usage: 'Usage',
+    synthesis: 'Synthesis',
+    afterFailure: (agents) => `after failure of: ${agents}`,
+    notFinished: 'Consilium not finished',
+    expertOpinions: 'Expert opinions',
+    fromCache: 'cached',
+    session: 'OpenCode session',
+    consensus: 'Expert agreement',
+    score: 'Score',
+    round: (round) => `round ${round}`,
+    roundTitle: (round) => `Round ${round}`,
+    thresholdReached: 'threshold reached',
+    dissenters: 'Dissenters',
+    differences: 'Disagreements',
+    none: 'none',
+    discussion: 'Deliberation',
+    reason: 'Reason',
+    cancelled: 'run cancelled',
+    chairFailed: 'chair error',
+    quorumFailed: 'quorum not met',
+    pending: 'Awaiting answer',
+    resume: 'Resume',
+    noExpertAnswers: '[No expert answers]',
+    synthesisUnavailable: (chairs) => `Synthesis unavailable (${chairs}), raw expert opinions below.`,
+    chairFallback: 'chair',
+    usageLine: (input, output) => `${input} in / ${output} out`,
+    cacheTokens: (read, write) => `cache ${read}+${write}`,
+    tokens: 'tokens',
+    saved: (path) => `💾 Result saved: ${path}`,
+    vote: {
+      title: 'Vote results',
+      decision: 'Decision',
+      tie: 'none — tie',
+      noVotes: 'none — no votes',
+      rationales: 'Rationales',
+      weight: 'weight',
+      abstained: 'Did not vote'
+    }
+  },
+  context: {
+    input: 'Input',
+    truncated: '[...truncated]',
+    tooLarge: (maxFileSize) => `larger than ${maxFileSize} bytes`,
+    binary: 'binary file',
+    totalLimit: 'total context limit exceeded'
+  },
+  warnings: {
+    noExperts: 'The expert list is empty. Add at least one expert.',
+    duplicateExperts: (names) => `Duplicate experts found: ${names}`,
+    expertTimeout: 'Expert timeout is too small (< 10 s). False timeouts are possible.',
+    chairTimeout: 'Chair timeout is too small (< 30 s). False timeouts are possible.',
+    noChair: 'No chair agent specified. The default is used.',
+    chairTemplate: (message) => `Chair template: ${message}`,
+    maxExpertTextLength: 'chair.maxExpertTextLength must be greater than 0.',
+    unknownLocale: (locale, supported) => `Unknown language: ${locale}. Allowed: ${supported}.`,
+    unknownBackend: (backend) => `Unknown agent backend: ${backend}. Allowed: opencode, mock.`,
+    unknownInvocation: (field, value) => `Unknown invocation mode in ${field}: ${value}. Allowed: agent, subagent, default. The agent mode is used.`,
+    unknownSynthesis: (strategy) => `Unknown synthesis strategy: ${strategy}. Allowed: chair, concat, map-reduce, vote, multi-chair.`,
+    maxConcurrency: 'maxConcurrency is less than 1. No concurrency limit is applied.',
+    rateLimit: (key) => `Rate limit for ${key} must be greater than 0. The limit is not applied.`,
+    quorumUnknownExperts: (names) => `Required quorum experts not found: ${names}`,
+    quorumUnreachable: (min, experts) => `Quorum ${min} exceeds the number of experts (${experts}) and cannot be met.`,
+    consensusThreshold: (threshold) => `Consensus threshold ${threshold} is outside (0, 1]. Deliberation will not stop early.`,
+    readError: (path, message) => `Error reading ${path}: ${message}`,
+    unknownPanel: (panel) => `Unknown expert panel: ${panel}. Experts from the config are used.`,
+    promptFileMissing: (owner, file) => `Prompt file for ${owner} not found: ${file}. The prompt from the config or the built-in one is used.`,
+    chair: 'the chair'
+  },
+  errors: {
+    templateElse: 'Template error: ${else} without ${if} or ${each}',
+    templateUnmatched: (token, opening) => `Template error: \${${token}} without \${${opening}}`,
+    templateUnclosed: (block) => `Template error: unclosed \${${block}}`,
+    templateCondition: (condition) => `Template error: invalid condition ${condition}`,
+    unknownPartial: (name) => `Unknown template partial: ${name}`,
+    partialDepth: (name) => `Template partials are nested too deeply: ${name}`,
+    promptFileNotFound: (path) => `Prompt file not found: ${path}`,
+    invalidVar: (assignment) => `Invalid template variable: ${assignment}. Expected name=value`,
+    unknownPanel: (panel) => `Unknown expert panel: ${panel}`,
+    contextFileNotFound: (file) => `Context file not found: ${file}`,
+    gitDiff: (base, details) => `Failed to get git diff ${base}: ${details}`,
+    gitDiffBase: (base) => `Invalid git diff base: ${base} (must not start with -)`,
+    gitExitCode: (code) => `exit code ${code}`,
+    gitSpawn: (message) => `Failed to run git: ${message}`,
+    alreadyRunning: (status) => `Consilium is already running (status: ${status})`,
+    opencodeNotFound: 'OpenCode CLI not found. Install opencode-cli.',
+    backendUnavailable: (backend) => `Agent backend ${backend} is unavailable`,
+    noActiveExperts: 'No active experts for the consilium',
+    unknownBackend: (backend) => `Unknown agent backend: ${backend}`,
+    unknownSynthesis: (strategy) => `Unknown synthesis strategy: ${strategy}`,
+    resultFileNotFound: (path) => `Result file not found: ${path}`,
+    noSavedState: (path) => `${path} has no saved consilium state`,
+    quorumNotMet: (reasons) => `Quorum not met: ${reasons}`,
+    quorumAnswered: (answered, needed) => `${answered} of ${needed} required experts answered`,
+    quorumMissingRequired: (experts) => `no answer from required experts: ${experts}`,
+    budgetCost: (cost, maxCost) => `Budget exceeded: $${cost.toFixed(4)} > $${maxCost}`,
+    budgetTokens: (tokens, maxTokens) => `Budget exceeded: ${tokens} tokens > ${maxTokens}`,
+    unknownError: 'Unknown error'
+  },
+  results: {
+    cancelled: '[Cancelled]',
+    runCancelled: '[Consilium cancelled]',
+    chairNotStarted: '[Not started]',
+    timeout: (agent) => `[Timeout ${agent}]`,
+    emptyResponse: (agent) => `[Agent ${agent} returned no text]`,
+    spawnError: (message) => `[Error: ${message}]`,
+    attemptsExhausted: '[All attempts exhausted]',
+    schemaMismatch: (errors) => `[Answer does not match the schema: ${errors}]`
+  },
+  validation: {
+    noJson: 'No JSON in the answer',
+    invalidJson: (message) => `Invalid JSON: ${message}`,
+    typeMismatch: (path, expected, actual) => `${path}: expected ${expected}, got ${actual}`,
+    notInEnum: (path, options) => `${path}: value is not one of ${options}`,
+    belowMinimum: (path, minimum) => `${path}: less than ${minimum}`,
+    aboveMaximum: (path, maximum) => `${path}: greater than ${maximum}`,
+    tooFewItems: (path, minItems) => `${path}: fewer than ${minItems} items`,
+    tooManyItems: (path, maxItems) => `${path}: more than ${maxItems} items`,
+    missingField: (path) => `${path}: required field is missing`
+  }
+};
+
+const zh: Messages = {
+  languageNames: { ru: '俄语', en: '英语', zh: '中文' },
+  prompts: {
+    experts: {
+      arch: (task) => `作为架构师，请简要评估该任务（3-5 句话）：${task}`,
+      ux: (task) => `作为 UX 专家，请简要评估该任务（3-5 句话）：${task}`,
+      ba: (task) => `作为业务分析师，请简要评估该任务（3-5 句话）：${task}`,
+      sec: (task) => `作为安全专家，请简要评估该任务（3-5 句话）：${task}`,
+      perf: (task) => `作为性能专家，请简要评估该任务（3-5 句话）：瓶颈、负载、延迟。${task}`,
+      qa: (task) => `作为 QA 工程师，请简要评估该任务（3-5 句话）：可测试性、边界情况、回归。${task}`,
+      devops: (task) => `作为 DevOps/SRE 工程师，请简要评估该任务（3-5 句话）：部署、可观测性、可靠性。${task}`,
+      data: (task) => `作为数据工程师，请简要评估该任务（3-5 句话）：数据模型、迁移、分析。${task}`,
+      legal: (task) => `作为法律与合规专家，请简要评估该任务（3-5 句话）：个人数据、许可证、监管要求。${task}`,
+      a11y: (task) => `作为无障碍专家，请简要评估该任务（3-5 句话）：WCAG、键盘操作、屏幕阅读器。${task}`,
+      dx: (task) => `作为开发者体验（DX）专家，请简要评估该任务（3-5 句话）：API、文档、可维护性。${task}`,
+      finops: (task) => `作为 FinOps 专家，请简要评估该任务（3-5 句话）：基础设施成本及其降低方法。${task}`,
+      default: (task) => `请以专家身份分析该任务（简要，3-5 句话）：${task}`
+    },
+    chair: `\${intro}
+
+## 任务
+\${task}
+
+## 专家意见
+\${each answers}### \${title}
+\${text}
+
+\${/each}\${if missing}## 未回答
+\${missing} — 缺少他们的意见，请在评估风险时考虑这一点。
+
+\${/if}## 回答要求
+\${each sections}\${index}. \${item}\${if !last}
+\${/if}\${/each}`,
+    chairIntro: '综合专家意见，制定最终计划。',
+    chairSections: [
+      '**摘要**（1-2 句话）',
+      '**前 3 项优先行动**及理由',
+      '**主要风险**及缓解措施',
+      '**工作量评估**（如适用）'
+    ],
+    panels: {
+      'code-review': {
+        title: '代码审查',
+        intro: '将专家意见汇总为对本次变更的最终审查结论。',
+        sections: [
+          '**结论**：通过、修改后通过或拒绝',
+          '**阻塞问题**及其在代码中的位置',
+          '**非阻塞改进**',
+          '**缺少的测试**'
+        ]
+      },
+      'product-discovery': {
+        title: '产品探索',
+        intro: '将专家意见汇总为产品探索的结论。',
+        sections: [
+          '**问题与目标用户**（1-2 句话）',
+          '**前 3 个假设**及验证方法',
+          '**MVP 范围**',
+          '**风险与未决问题**'
+        ]
+      },
+      'incident-postmortem': {
+        title: '事故复盘',
+        intro: '将专家意见汇总为不追责的事故复盘。',
+        sections: [
+          '**事故概述**及其影响',
+          '**根本原因**及促成因素',
+          '**检测与恢复中哪些有效、哪些无效**',
+          '**改进措施**，按优先级排列以防再次发生'
+        ]
+      }
+    },
+    headings: {
+      task: '任务',
+      opinions: '专家意见',
+      requirements: '回答要求',
+      responseFormat: '回答格式',
+      projectContext: '项目上下文'
+    },
+    merge: {
+      intro: '多位主席分别综合了专家意见。请将它们合并为一个最终计划。',
+      drafts: '综合草稿',
+      draft: (index) => `草稿 ${index}`,
+      requirements: [
+        '保留各草稿一致的内容',
+        '解决矛盾并简要说明取舍',
+        '最终计划沿用原草稿的格式'
+      ]
+    },
+    deliberation: {
+      intro: (round) => `第 ${round} 轮讨论。同事们已就该任务发表意见，请重新审视你的立场。`,
+      own: '你之前的意见',
+      noAnswer: '（无回答）',
+      others: '其他专家的意见',
+      requirements: [
+        '你同意什么及原因',
+        '你反对什么及原因',
+        '**最终立场**（3-5 句话）'
+      ]
+    },
+    consensus: {
+      intro: '评估专家之间的一致程度。不要自己解决该任务。',
+      jsonOnly: '只回复 JSON，不要解释：',
+      format: '{"score": <0 到 1 之间的数字>, "dissenters": [<持不同意见的专家名称>], "summary": "<分歧要点>"}'
+    },
+    schema: {
+      jsonOnly: '只回复符合该 schema 的 JSON，不要附加解释：',
+      invalid: '上一次回答未通过校验：'
+    },
+    vote: {
+      choice: '所选选项，与列表完全一致',
+      choiceFree: '所选选项，简要',
+      rationale: '选择理由（2-3 句话）'
+    },
+    answerLanguage: (language) => `请用${language}回答。`,
+    truncated: (kept, total) => `[...已截断：${kept} / ${total} 个字符]`
+  },
+  output: {
+    title: '会诊结果',
+    time: '耗时',
+    seconds: '秒',
+    usage: '用量',
+    synthesis: '综合',
+    afterFailure: (agents) => `在 ${agents} 失败之后`,
+    notFinished: '会诊未完成',
+    expertOpinions: '专家意见',
+    fromCache: '来自缓存',
+    session: 'OpenCode 会话',
+    consensus: '专家一致度',
+    score: '评分',
+    round: (round) => `第 ${round} 轮`,
+    roundTitle: (round) => `第 ${round} 轮`,
+    thresholdReached: '已达到阈值',
+    dissenters: '持不同意见者',
+    differences: '分歧',
+    none: '无',
+    discussion: '讨论过程',
+    reason: '原因',
+    cancelled: '运行已取消',
+    chairFailed: '主席出错',
+    quorumFailed: '未达到法定人数',
+    pending: '等待回答',
+    resume: '继续',
+    noExpertAnswers: '[没有专家回答]',
+    synthesisUnavailable: (chairs) => `综合不可用（${chairs}），以下为未经处理的专家意见。`,
+    chairFallback: '主席',
+    usageLine: (input, output) => `输入 ${input} / 输出 ${output}`,
+    cacheTokens: (read, write) => `缓存 ${read}+${write}`,
+    tokens: '个 token',
+    saved: (path) => `💾 结果已保存：${path}`,
+    vote: {
+      title: '投票结果',
+      decision: '决定',
+      tie: '未决定 — 票数相同',
+      noVotes: '未决定 — 无人投票',
+      rationales: '理由',
+      weight: '权重',
+      abstained: '未投票'
+    }
+  },
+  context: {
+    input: '输入',
+    truncated: '[...已截断]',
+    tooLarge: (maxFileSize) => `超过 ${maxFileSize} 字节`,
+    binary: '二进制文件',
+    totalLimit: '超出上下文总大小限制'
+  },
+  warnings: {
+    noExperts: '专家列表为空。请至少添加一位专家。',
+    duplicateExperts: (names) => `发现重复的专家：${names}`,
+    expertTimeout: '专家超时时间过短（< 10 秒），可能出现误判的超时。',
+    chairTimeout: '主席超时时间过短（< 30 秒），可能出现误判的超时。',
+    noChair: '未指定主席智能体，将使用默认值。',
+    chairTemplate: (message) => `主席模板：${message}`,
+    maxExpertTextLength: 'chair.maxExpertTextLength 必须大于 0。',
+    unknownLocale: (locale, supported) => `未知语言：${locale}。可选：${supported}。`,
+    unknownBackend: (backend) => `未知的智能体后端：${backend}。可选：opencode、mock。`,
+    unknownInvocation: (field, value) => `${field} 中的调用模式未知：${value}。可选：agent、subagent、default。将使用 agent 模式。`,
+    unknownSynthesis: (strategy) => `未知的综合策略：${strategy}。可选：chair、concat、map-reduce、vote、multi-chair。`,
+    maxConcurrency: 'maxConcurrency 小于 1，不限制并发。',
+    rateLimit: (key) => `${key} 的请求限制必须大于 0，该限制不生效。`,
+    quorumUnknownExperts: (names) => `未找到法定人数要求的专家：${names}`,
+    quorumUnreachable: (min, experts) => `法定人数 ${min} 超过专家数量（${experts}），无法达到。`,
+    consensusThreshold: (threshold) => `共识阈值 ${threshold} 超出范围 (0, 1]，讨论不会提前结束。`,
+    readError: (path, message) => `读取 ${path} 时出错：${message}`,
+    unknownPanel: (panel) => `未知的专家小组：${panel}。将使用配置中的专家。`,
+    promptFileMissing: (owner, file) => `未找到${owner}的提示词文件：${file}。将使用配置中的提示词或内置提示词。`,
+    chair: '主席'
+  },
+  errors: {
+    templateElse: '模板错误：${else} 缺少对应的 ${if} 或 ${each}',
+    templateUnmatched: (token, opening) => `模板错误：\${${token}} 缺少对应的 \${${opening}}`,
+    templateUnclosed: (block) => `模板错误：\${${block}} 未闭合`,
+    templateCondition: (condition) => `模板错误：无效的条件 ${condition}`,
+    unknownPartial: (name) => `未知的模板片段：${name}`,
+    partialDepth: (name) => `模板片段嵌套过深：${name}`,
+    promptFileNotFound: (path) => `未找到提示词文件：${path}`,
+    invalidVar: (assignment) => `无效的模板变量：${assignment}。格式应为 名称=值`,
+    unknownPanel: (panel) => `未知的专家小组：${panel}`,
+    contextFileNotFound: (file) => `未找到上下文文件：${file}`,
+    gitDiff: (base, details) => `无法获取 git diff ${base}：${details}`,
+    gitDiffBase: (base) => `无效的 git diff 基准：${base}（不能以 - 开头）`,
+    gitExitCode: (code) => `退出码 ${code}`,
+    gitSpawn: (message) => `无法运行 git：${message}`,
+    alreadyRunning: (status) => `Consilium 已在运行（状态：${status}）`,
+    opencodeNotFound: '未找到 OpenCode CLI。请安装 opencode-cli。',
+    backendUnavailable: (backend) => `智能体后端 ${backend} 不可用`,
+    noActiveExperts: '会诊没有可用的专家',
+    unknownBackend: (backend) => `未知的智能体后端：${backend}`,
+    unknownSynthesis: (strategy) => `未知的综合策略：${strategy}`,
+    resultFileNotFound: (path) => `未找到结果文件：${path}`,
+    noSavedState: (path) => `文件 ${path} 中没有保存的会诊状态`,
+    quorumNotMet: (reasons) => `未达到法定人数：${reasons}`,
+    quorumAnswered: (answered, needed) => `${needed} 位必需专家中只有 ${answered} 位回答`,
+    quorumMissingRequired: (experts) => `必需专家未回答：${experts}`,
+    budgetCost: (cost, maxCost) => `超出预算：$${cost.toFixed(4)} > $${maxCost}`,
+    budgetTokens: (tokens, maxTokens) => `超出预算：${tokens} 个 token > ${maxTokens}`,
+    unknownError: '未知错误'
+  },
+  results: {
+    cancelled: '[已取消]',
+    runCancelled: '[会诊已取消]',
+    chairNotStarted: '[未启动]',
+    timeout: (agent) => `[${agent} 超时]`,
+    emptyResponse: (agent) => `[智能体 ${agent} 未返回文本]`,
+    spawnError: (message) => `[错误：${message}]`,
+    attemptsExhausted: '[所有尝试均已用尽]',
+    schemaMismatch: (errors) => `[回答不符合模式：${errors}]`
+  },
+  validation: {
+    noJson: '回答中没有 JSON',
+    invalidJson: (message) => `无效的 JSON：${message}`,
+    typeMismatch: (path, expected, actual) => `${path}：应为 ${expected}，实际为 ${actual}`,
+    notInEnum: (path, options) => `${path}：值不在 ${options} 之中`,
+    belowMinimum: (path, minimum) => `${path}：小于 ${minimum}`,
+    aboveMaximum: (path, maximum) => `${path}：大于 ${maximum}`,
+    tooFewItems: (path, minItems) => `${path}：少于 ${minItems} 个元素`,
+    tooManyItems: (path, maxItems) => `${path}：多于 ${maxItems} 个元素`,
+    missingField: (path) => `${path}：缺少必填字段`
+  }
+};
+
+/**
+ * Каталоги сообщений по языкам
+ */
+export const MESSAGES: Record<Locale, Messages> = { ru, en, zh };
+
+/**
+ * Проверяет, поддерживается ли язык
+ */
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (SUPPORTED_LOCALES as readonly string[]).includes(value);
+}
+
+/**
+ * Определяет язык по переменным окружения LC_ALL, LC_MESSAGES и LANG
+ *
+ * `en_US.UTF-8` → `en`; C, POSIX и неподдерживаемые языки дают язык по умолчанию.
+ */
+export function detectLocale(env: NodeJS.ProcessEnv = process.env): Locale {
+  const value = env.LC_ALL || env.LC_MESSAGES || env.LANG || '';
+  const language = value.split(/[_.@-]/)[0].toLowerCase();
+  return isLocale(language) ? language : DEFAULT_LOCALE;
+}
+
+/**
+ * Язык запуска: из конфига или по умолчанию
+ */
+export function resolveLocale(config: Pick<ConsiliumConfig, 'locale'> = {}): Locale {
+  return isLocale(config.locale) ? config.locale : DEFAULT_LOCALE;
+}
+
+/**
+ * Каталог сообщений для языка
+ */
+export function getMessages(locale: Locale = DEFAULT_LOCALE): Messages {
+  return MESSAGES[locale] ?? MESSAGES[DEFAULT_LOCALE];
+}
+
+/**
+ * Добавляет к промпту требование отвечать на заданном языке
+ *
+ * Код языка (`en`) заменяется названием из каталога, остальное подставляется как есть.
+ */
+export function appendAnswerLanguage(
+  prompt: string,
+  config: Pick<ConsiliumConfig, 'locale' | 'answerLanguage'>
+): string {
+  if (!config.answerLanguage) {
+    return prompt;
+  }
+
+  const messages = getMessages(resolveLocale(config));
+  const language = isLocale(config.answerLanguage)
+    ? messages.languageNames[config.answerLanguage]
+    : config.answerLanguage;
+  return `${prompt}\n\n${messages.prompts.answerLanguage(language)}`;
+}
@@ -0,0 +1,797 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Consilium, cancel, resetCancel, createMockBackend, formatServerSentEvent, loadSavedResult } from './index.js';
+
+/**
+ * Создаёт консилиум на mock-бэкенде без задержек между попытками
+ */
+function createTestConsilium(responses, overrides = {}) {
+  return new Consilium({
+    experts: [
+      { name: 'arch', prompt: 'arch: ${task}' },
+      { name: 'sec', prompt: 'sec: ${task}' }
+    ],
+    backend: createMockBackend({ responses }),
+    retry: { expertRetries: 1, chairRetries: 0, delay: 1, exponentialBackoff: false },
+    ...overrides
+  });
+}
+
+describe('index.ts', () => {
+  describe('Consilium.run', () => {
+    it('должен опрашивать экспертов и синтезировать ответ председателя', async () => {
+      const consilium = createTestConsilium({
+        arch: 'Мнение архитектора',
+        sec: 'Мнение безопасника',
+        consilium: (prompt) => `Итог: ${prompt.includes('Мнение архитектора') && prompt.includes('Мнение безопасника')}`
+      });
+
+      const result = await consilium.run('Задача');
+
+      assert.strictEqual(result.success, true);
+      assert.strictEqual(result.text, 'Итог: true');
+      assert.deepStrictEqual(result.experts.map(e => e.agent), ['arch', 'sec']);
+      assert.strictEqual(consilium.getStatus(), 'completed');
+    });
+
+    it('должен повторять неуспешный вызов эксперта', async () => {
+      const consilium = createTestConsilium({
+        arch: [{ text: '', success: false, errorCode: 'EMPTY_RESPONSE' }, 'Со второй попытки'],
+        sec: 'Мнение безопасника',
+        consilium: 'Итог'
+      });
+
+      const result = await consilium.run('Задача');
+      const arch = result.experts.find(e => e.agent === 'arch');
+
+      assert.strictEqual(arch.success, true);
+      assert.strictEqual(arch.text, 'Со второй попытки');
+      assert.strictEqual(arch.attempt, 1);
+    });
+
+    it('должен вызывать хуки жизненного цикла', async () => {
+      const calls = [];
+      const consilium = createTestConsilium(
+        { arch: 'A', sec: { text: '', success: false, errorCode: 'EMPTY_RESPONSE' }, consilium: 'Итог' },
+        {
+          hooks: {
+            onStart: () => { calls.push('start'); },
+            onExpertError: (r) => { calls.push(`error:${r.agent}`); },
+            onChairEnd: () => { calls.push('chair'); },
+            onEnd: () => { calls.push('end'); }
+          }
+        }
+      );
+
+      await consilium.run('Задача');
+
+      assert.strictEqual(calls[0], 'start');
+      assert.strictEqual(calls.filter(c => c === 'error:sec').length, 2);
+      assert.deepStrictEqual(calls.slice(-2), ['chair', 'end']);
+    });
+
+    it('должен передавать фрагменты ответов в хуки и прогресс', async () => {
+      const chunks = [];
+      const events = [];
+      const consilium = createTestConsilium(
+        { arch: 'A', sec: 'B', consilium: 'Итог' },
+        { hooks: { onExpertChunk: (chunk) => { chunks.push(chunk); } } }
+      );
+      consilium.onProgress(event => events.push(event.type));
+
+      await consilium.run('Задача');
+
+      assert.deepStrictEqual(chunks.map(c => c.text).sort(), ['A', 'B']);
+      assert.strictEqual(events.filter(t => t === 'expert_chunk').length, 2);
+      assert.ok(events.includes('chair_chunk'));
+    });
+
+    it('должен возвращать неуспешный результат при ошибке председателя', async () => {
+      const consilium = createTestConsilium({
+        arch: 'A',
+        sec: 'B',
+        consilium: { text: '[Таймаут consilium]', success: false, errorCode: 'TIMEOUT' }
+      });
+
+      const result = await consilium.run('Задача');
+
+      assert.strictEqual(result.success, false);
+      assert.strictEqual(result.chair.errorCode, 'TIMEOUT');
+    });
+  });
+
+  describe('структурированный ответ', () => {
+    const schema = {
+      type: 'object',
+      required: ['verdict', 'confidence'],
+      properties: { verdict: { type: 'string' }, confidence: { type: 'number' } }
+    };
+
+    it('должен повторять невалидный ответ и передавать data председателю', async () => {
+      const consilium = createTestConsilium({
+        arch: [
+          'Без JSON',
+          (prompt) => prompt.includes('не прошёл проверку') ? '{"verdict": "ok", "confidence": 0.9}' : 'Снова без JSON'
+        ],
+        sec: 'Мнение безопасника',
+        consilium: (prompt) => `Итог: ${prompt.includes('"confidence": 0.9')}`
+      }, {
+        experts: [
+          { name: 'arch', prompt: 'arch: ${task}', outputSchema: schema },
+          { name: 'sec', prompt: 'sec: ${task}' }
+        ]
+      });
+
+      const result = await consilium.run('Задача');
+      const arch = result.experts.find(e => e.agent === 'arch');
+
+      assert.strictEqual(arch.success, true);
+      assert.deepStrictEqual(arch.data, { verdict: 'ok', confidence: 0.9 });
+      assert.strictEqual(result.text, 'Итог: true');
+    });
+
+    it('должен возвращать PARSE_ERROR, если попытки исчерпаны', async () => {
+      const consilium = createTestConsilium({
+        arch: '{"verdict": "ok"}',
+        sec: 'B',
+        consilium: 'Итог'
+      }, {
+        experts: [{ name: 'arch', outputSchema: schema }, { name: 'sec' }]
+      });
+
+      const result = await consilium.run('Задача');
+      const arch = result.experts.find(e => e.agent === 'arch');
+
+      assert.strictEqual(arch.success, false);
+      assert.strictEqual(arch.errorCode, 'PARSE_ERROR');
+      assert.strictEqual(arch.attempt, 1);
+      assert.match(arch.text, /\$\.confidence: обязательное поле отсутствует/);
+    });
+  });
+
+  describe('стратегии синтеза', () => {
+    it('должен синтезировать результат стратегией из chair.strategy', async () => {
+      const consilium = createTestConsilium({
+        arch: 'A',
+        sec: 'B',
+        consilium: () => assert.fail('председатель не должен вызываться')
+      }, { chair: { agent: 'consilium', strategy: 'concat' } });
+
+      const result = await consilium.run('Задача');
+
+      assert.strictEqual(result.chair.agent, 'concat');
+      assert.strictEqual(result.text, '## ARCH\nA\n\n## SEC\nB');
+    });
+  });
+
+  describe('очередь экспертов', () => {
+    it('должен запускать экспертов по приоритету с учётом maxConcurrency', async () => {
+      const consilium = createTestConsilium({
+        arch: { text: 'A', delay: 20 },
+        sec: { text: 'B', delay: 20 },
+        consilium: 'Итог'
+      }, {
+        experts: [{ name: 'arch', priority: 2 }, { name: 'sec', priority: 1 }],
+        maxConcurrency: 1
+      });
+
+      const result = await consilium.run('Задача');
+      const [arch, sec] = result.experts;
+
+      assert.strictEqual(sec.queueTime, 0);
+      assert.ok(arch.queueTime >= 15);
+      assert.ok(arch.duration < arch.queueTime + 20);
+    });
+  });
+
+  describe('контекст проекта', () => {
+    it('должен подставлять контекст в ${context} и добавлять его в остальные промпты', async () => {
+      const prompts = {};
+      const consilium = createTestConsilium({
+        arch: (prompt) => { prompts.arch = prompt; return 'A'; },
+        sec: (prompt) => { prompts.sec = prompt; return 'B'; },
+        consilium: 'Итог'
+      }, {
+        experts: [
+          { name: 'arch', prompt: 'Код:\n${context}\nЗадача: ${task}' },
+          { name: 'sec', prompt: 'sec: ${task}' }
+        ]
+      });
+
+      await consilium.run('Ревью', { context: 'diff --git $&' });
+
+      assert.strictEqual(prompts.arch, 'Код:\ndiff --git $&\nЗадача: Ревью');
+      assert.strictEqual(prompts.sec, 'sec: Ревью\n\n## Контекст проекта\ndiff --git $&');
+    });
+
+    it('должен передавать контекст в раунды обсуждения', async () => {
+      const prompts = [];
+      const consilium = createTestConsilium({
+        arch: (prompt) => { prompts.push(prompt); return 'A'; },
+        sec: 'B',
+        consilium: 'Итог'
+      });
+
+      const result = await consilium.run('Ревью', { context: 'файл.ts', rounds: 2 });
+
+      assert.strictEqual(prompts.length, 2);
+      assert.ok(prompts[1].includes('## Контекст проекта\nфайл.ts'));
+      assert.strictEqual(result.metadata.context.size, 'файл.ts'.length);
+    });
+  });
+
+  describe('шаблоны промптов', () => {
+    it('должен подставлять переменные, файлы промптов и мнения в шаблон председателя', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'consilium-prompts-'));
+      const promptFile = join(dir, 'sec.md');
+      writeFileSync(promptFile, '${> role}: ${task}${if strict} (строго)${/if}');
+
+      const prompts = {};
+      try {
+        const consilium = createTestConsilium({
+          arch: (prompt) => { prompts.arch = prompt; return 'Монолит'; },
+          sec: (prompt) => { prompts.sec = prompt; return 'Нужен аудит'; },
+          consilium: (prompt) => { prompts.chair = prompt; return 'Итог'; }
+        }, {
+          experts: [
+            { name: 'arch', prompt: '${expert} для ${team}: ${task}', vars: { team: 'платформы' } },
+            { name: 'sec', prompt: 'не используется', promptFile }
+          ],
+          chair: {
+            agent: 'consilium',
+            promptTemplate: 'Экспертов: ${experts}, команда ${team}\n${opinions}'
+          },
+          vars: { team: 'backend', strict: 'true' },
+          partials: { role: 'Безопасник' }
+        });
+
+        await consilium.run('Ревью');
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+
+      assert.strictEqual(prompts.arch, 'arch для платформы: Ревью');
+      assert.strictEqual(prompts.sec, 'Безопасник: Ревью (строго)');
+      assert.ok(prompts.chair.startsWith('Экспертов: 2, команда backend\n'));
+      assert.ok(prompts.chair.includes('Монолит'));
+      assert.ok(prompts.chair.includes('Нужен аудит'));
+    });
+  });
+
+  describe('локализация', () => {
+    it('должен использовать промпты и заголовки выбранного языка', async () => {
+      const prompts = {};
+      const consilium = createTestConsilium({
+        arch: (prompt) => { prompts.arch = prompt; return 'Monolith'; },
+        ux: 'Fine',
+        consilium: (prompt) => { prompts.chair = prompt; return 'Plan'; }
+      }, {
+        experts: [{ name: 'arch' }, { name: 'ux' }],
+        locale: 'en'
+      });
+
+      const dir = mkdtempSync(join(tmpdir(), 'consilium-'));
+      const file = join(dir, 'result.md');
+      try {
+        await consilium.run('Review', { outputFile: file });
+        assert.strictEqual(prompts.arch, 'As a software architect, assess the task briefly (3-5 sentences): Review');
+        assert.ok(prompts.chair.startsWith('Synthesize the expert opinions into a final plan.'));
+        assert.ok(prompts.chair.includes('### ARCH\nMonolith'));
+        assert.match(readFileSync(file, 'utf-8'), /^# Consilium result\n[\s\S]*## Expert opinions/);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('должен требовать ответ на заданном языке', async () => {
+      const prompts = {};
+      const consilium = createTestConsilium({
+        arch: (prompt) => { prompts.arch = prompt; return 'A'; },
+        sec: 'B',
+        consilium: (prompt) => { prompts.chair = prompt; return 'Итог'; }
+      }, { answerLanguage: 'en' });
+
+      await consilium.run('Задача');
+
+      assert.strictEqual(prompts.arch, 'arch: Задача\n\nОтвечай на языке: английский.');
+      assert.ok(prompts.chair.endsWith('Отвечай на языке: английский.'));
+    });
+  });
+
+  describe('панели экспертов', () => {
+    it('должен опрашивать экспертов панели и передавать председателю её разделы', async () => {
+      const prompts = {};
+      const consilium = createTestConsilium({
+        arch: 'A', sec: 'S', perf: 'P', dx: 'D',
+        qa: (prompt) => { prompts.qa = prompt; return 'Q'; },
+        consilium: (prompt) => { prompts.chair = prompt; return 'Итог'; }
+      }, { panel: 'code-review', experts: [{ name: 'qa', prompt: 'qa: ${task}' }] });
+
+      const result = await consilium.run('PR #42');
+
+      assert.deepStrictEqual(result.experts.map(e => e.agent), ['arch', 'sec', 'perf', 'qa', 'dx']);
+      assert.strictEqual(prompts.qa, 'qa: PR #42');
+      assert.ok(prompts.chair.startsWith('Сведи замечания экспертов в итоговое ревью изменений.'));
+      assert.ok(prompts.chair.includes('1. **Вердикт**: принять, принять с правками или отклонить'));
+    });
+  });
+
+  describe('расход токенов', () => {
+    const usage = (input, output) => ({ input, output, cacheRead: 0, cacheWrite: 0, cost: 0 });
+
+    it('должен суммировать расход экспертов и председателя с учётом цен', async () => {
+      const consilium = createTestConsilium({
+        arch: { text: 'A', usage: usage(1000, 100) },
+        sec: [{ text: '', success: false, errorCode: 'EMPTY_RESPONSE', usage: usage(500, 0) }, { text: 'B', usage: usage(500, 100) }],
+        consilium: { text: 'Итог', usage: usage(2000, 300) }
+      }, {
+        experts: [{ name: 'arch', model: 'openrouter/free' }, { name: 'sec' }],
+        pricing: { openrouter: { input: 1, output: 10 } }
+      });
+
+      const result = await consilium.run('Задача');
+
+      assert.deepStrictEqual(result.experts[1].usage, usage(1000, 100));
+      assert.strictEqual(result.experts[0].usage.model, 'openrouter/free');
+      assert.strictEqual(result.usage.input, 4000);
+      assert.strictEqual(result.usage.output, 500);
+      assert.strictEqual(result.usage.cost, 0.002);
+    });
+
+    it('должен отменять запуск при превышении бюджета', async () => {
+      const consilium = createTestConsilium({
+        arch: { text: 'A', usage: usage(5000, 500) },
+        sec: { text: 'B', delay: 200 },
+        consilium: 'Итог'
+      }, { budget: { maxTokens: 1000 } });
+
+      const result = await consilium.run('Задача');
+
+      assert.strictEqual(consilium.getStatus(), 'cancelled');
+      assert.strictEqual(result.partial.reason, 'cancelled');
+      assert.match(result.partial.message, /Превышен бюджет: 5500 токенов > 1000/);
+      assert.strictEqual(result.usage.input, 5000);
+    });
+
+    it('должен писать причину отмены и заглушки на языке locale', async () => {
+      const consilium = createTestConsilium({
+        arch: { text: 'A', usage: usage(5000, 500) },
+        sec: { text: 'B', delay: 200 },
+        consilium: 'Итог'
+      }, { budget: { maxTokens: 1000 }, locale: 'en' });
+
+      const result = await consilium.run('Задача');
+
+      assert.strictEqual(result.text, '[Consilium cancelled]');
+      assert.strictEqual(result.partial.message, 'Budget exceeded: 5500 tokens > 1000');
+      assert.strictEqual(result.experts.find(e => e.agent === 'sec').text, '[Cancelled]');
+      assert.strictEqual(result.chair.text, '[Cancelled]');
+    });
+
+    it('должен сохранять готовый ответ председателя, превысившего бюджет', async () => {
+      const consilium = createTestConsilium({
+        arch: 'A',
+        sec: 'B',
+        consilium: { text: 'Итог', usage: usage(150, 50) }
+      }, { budget: { maxTokens: 100 } });
+
+      const result = await consilium.run('Задача');
+
+      assert.strictEqual(consilium.getStatus(), 'completed');
+      assert.strictEqual(result.success, true);
+      assert.strictEqual(result.text, 'Итог');
+      assert.strictEqual(result.partial, undefined);
+      assert.strictEqual(result.usage.input + result.usage.output, 200);
+    });
+
+    it('должен учитывать цены по модели агента из opencode.json', async () => {
+      const consilium = createTestConsilium({
+        arch: { text: 'A', usage: usage(1000, 100) },
+        sec: 'B',
+        consilium: 'Итог'
+      }, {
+        openCodeAgents: { arch: { model: 'openrouter/free' } },
+        pricing: { openrouter: { input: 1, output: 10 } }
+      });
+
+      const result = await consilium.run('Задача');
+
+      assert.strictEqual(result.experts[0].usage.model, 'openrouter/free');
+      assert.strictEqual(result.usage.cost, 0.002);
+    });
+
+    it('должен включать расход судьи согласия в расход запуска и бюджет', async () => {
+      const consilium = createTestConsilium({
+        arch: { text: 'A', usage: usage(100, 10) },
+        sec: { text: 'B', usage: usage(100, 10) },
+        judge: { text: '{"score": 0.9, "dissenters": []}', usage: usage(3000, 50) },
+        consilium: 'Итог'
+      }, {
+        deliberation: { rounds: 2, consensus: { threshold: 0.8, judge: 'judge' } },
+        budget: { maxTokens: 1000 }
+      });
+
+      const result = await consilium.run('Задача');
+
+      assert.strictEqual(consilium.getStatus(), 'cancelled');
+      assert.match(result.partial.message, /Превышен бюджет: 3270 токенов > 1000/);
+      assert.strictEqual(result.usage.input, 3200);
+    });
+  });
+
+  describe('кворум', () => {
+    const failure = { text: '[Таймаут sec]', success: false, errorCode: 'TIMEOUT' };
+
+    it('должен завершаться ошибкой без ответа обязательного эксперта', async () => {
+      const consilium = createTestConsilium({
+        arch: 'A',
+        sec: failure,
+        consilium: () => assert.fail('председатель не должен вызываться')
+      }, { quorum: { required: ['sec'] } });
+
+      await assert.rejects(consilium.run('Задача'), /Кворум не набран: нет ответа обязательных экспертов: sec/);
+      assert.strictEqual(consilium.getStatus(), 'failed');
+    });
+
+    it('должен сохранять собранные ответы для продолжения, если кворум не набран', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'consilium-'));
+      const file = join(dir, 'result.json');
+      try {
+        const consilium = createTestConsilium({ arch: 'A', sec: failure, consilium: 'Итог' }, {
+          quorum: { required: ['sec'] },
+          output: { format: 'json' }
+        });
+
+        const error = await consilium.run('Задача', { outputFile: file }).catch(e => e);
+        assert.match(error.message, /Кворум не набран/);
+        assert.deepStrictEqual(error.result.partial, {
+          reason: 'quorum_failed',
+          pendingExperts: ['sec'],
+          message: error.message
+        });
+
+        const saved = loadSavedResult(file);
+        assert.strictEqual(saved.partial.reason, 'quorum_failed');
+
+        const prompts = [];
+        const resumed = await createTestConsilium({
+          arch: () => assert.fail('arch уже ответил'),
+          sec: (prompt) => { prompts.push(prompt); return 'S'; },
+          consilium: 'Итог'
+        }, { quorum: { required: ['sec'] } }).run('Задача', { resumeFrom: saved });
+
+        assert.strictEqual(resumed.success, true);
+        assert.strictEqual(prompts.length, 1);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('должен продолжать по успешным экспертам при onFailure: proceed', async () => {
+      const consilium = createTestConsilium({
+        arch: 'Мнение arch',
+        sec: failure,
+        consilium: (prompt) => `${prompt.includes('[Таймаут sec]')}|${prompt.includes('## Не ответили\nsec')}`
+      }, { quorum: { min: 2, onFailure: 'proceed' } });
+
+      const result = await consilium.run('Задача');
+
+      assert.strictEqual(result.text, 'false|true');
+      assert.strictEqual(result.metadata.quorum.answered, 1);
+    });
+  });
+
+  describe('запасные председатели', () => {
+    it('должен записывать, какой председатель дал итоговый ответ', async () => {
+      const consilium = createTestConsilium({
+        arch: 'A',
+        sec: 'B',
+        consilium: { text: '[Таймаут]', success: false, errorCode: 'TIMEOUT' },
+        plan: 'Итог от plan'
+      }, { chair: { agent: 'consilium', fallbacks: ['plan'] } });
+
+      const result = await consilium.run('Задача');
+
+      assert.strictEqual(result.success, true);
+      assert.strictEqual(result.partial, undefined);
+      assert.strictEqual(result.chair.agent, 'plan');
+      assert.deepStrictEqual(result.chairFallbacks.map(r => r.agent), ['consilium']);
+    });
+  });
+
+  describe('голосование', () => {
+    it('должен подводить итог голосования без председателя', async () => {
+      const consilium = createTestConsilium({
+        arch: '{"choice": "A", "rationale": "Проще"}',
+        sec: '```json\n{"choice": "B", "rationale": "Безопаснее"}\n```',
+        consilium: () => assert.fail('председатель не должен вызываться')
+      }, {
+        experts: [{ name: 'arch', priority: 1 }, { name: 'sec', priority: 2 }],
+        voting: { options: ['A', 'B'] }
+      });
+
+      const result = await consilium.run('Выбрать A или B');
+
+      assert.strictEqual(result.success, true);
+      assert.strictEqual(result.vote.winner, 'A');
+      assert.strictEqual(result.chair.agent, 'voting');
+      assert.match(result.text, /\*\*Решение:\*\* A/);
+    });
+
+    it('должен передавать итоги голосования председателю', async () => {
+      const consilium = createTestConsilium({
+        arch: '{"choice": "A", "rationale": "Проще"}',
+        sec: '{"choice": "A", "rationale": "Надёжнее"}',
+        consilium: (prompt) => `Итог: ${prompt.includes('## Итоги голосования')}`
+      }, { voting: { useChair: true } });
+
+      const result = await consilium.run('Выбрать вариант');
+
+      assert.strictEqual(result.text, 'Итог: true');
+      assert.deepStrictEqual(result.vote.tally, [{ choice: 'A', weight: 2, experts: ['arch', 'sec'] }]);
+    });
+  });
+
+  describe('раунды обсуждения', () => {
+    it('должен показывать экспертам мнения коллег во втором раунде', async () => {
+      const consilium = createTestConsilium({
+        arch: ['Мнение архитектора', (prompt) => `Учёл: ${prompt.includes('Мнение безопасника')}`],
+        sec: ['Мнение безопасника', (prompt) => `Учёл: ${prompt.includes('Мнение архитектора')}`],
+        consilium: (prompt) => `Итог: ${prompt.includes('Учёл: true')}`
+      }, { deliberation: { rounds: 2 } });
+
+      const result = await consilium.run('Задача');
+
+      assert.strictEqual(result.rounds.length, 2);
+      assert.deepStrictEqual(result.rounds[0].map(e => e.text), ['Мнение архитектора', 'Мнение безопасника']);
+      assert.deepStrictEqual(result.experts.map(e => e.text), ['Учёл: true', 'Учёл: true']);
+      assert.ok(result.experts.every(e => e.round === 2));
+      assert.strictEqual(result.text, 'Итог: true');
+    });
+
+    it('должен брать последний успешный ответ эксперта и учитывать RunOptions.rounds', async () => {
+      const consilium = createTestConsilium({
+        arch: ['Мнение архитектора', { text: '', success: false, errorCode: 'EMPTY_RESPONSE' }],
+        sec: ['Мнение безопасника', 'Пересмотренное мнение'],
+        consilium: 'Итог'
+      }, { retry: { expertRetries: 0, chairRetries: 0, delay: 1, exponentialBackoff: false } });
+
+      const result = await consilium.run('Задача', { rounds: 2 });
+
+      assert.strictEqual(result.rounds[1][0].success, false);
+      assert.deepStrictEqual(result.experts.map(e => e.text), ['Мнение архитектора', 'Пересмотренное мнение']);
+    });
+
+    it('должен останавливать обсуждение при достижении согласия', async () => {
+      const chairChunks = [];
+      const consilium = createTestConsilium({
+        arch: ['A', 'A2', 'A3'],
+        sec: ['B', 'B2', 'B3'],
+        consilium: [
+          '{"score": 0.4, "dissenters": ["sec", "ghost"], "summary": "Спор о сроках"}',
+          'Ответ: {"score": 0.9, "dissenters": ["sec"]}',
+          'Итог'
+        ]
+      }, {
+        deliberation: { rounds: 3, consensus: { threshold: 0.8 } },
+        hooks: { onChairChunk: (chunk) => chairChunks.push(chunk.text) }
+      });
+
+      const dir = mkdtempSync(join(tmpdir(), 'consilium-'));
+      try {
+        const file = join(dir, 'result.md');
+        const result = await consilium.run('Задача', { outputFile: file });
+
+        // Ответы судьи не транслируются как вывод председателя
+        assert.deepStrictEqual(chairChunks, ['Итог']);
+        assert.strictEqual(result.rounds.length, 2);
+        assert.strictEqual(result.text, 'Итог');
+        assert.deepStrictEqual(result.metadata.consensus, {
+          score: 0.9,
+          dissenters: ['sec'],
+          round: 2,
+          reached: true,
+          summary: undefined
+        });
+        assert.match(readFileSync(file, 'utf-8'), /## Согласие экспертов[\s\S]*90%[\s\S]*\*\*Несогласные:\*\* sec/);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('должен использовать собственную оценку согласия', async () => {
+      const consilium = createTestConsilium({ arch: ['A', 'A2'], sec: ['B', 'B2'], consilium: 'Итог' }, {
+        deliberation: {
+          rounds: 2,
+          consensus: { threshold: 0.5, measure: (task, experts) => ({ score: experts[0].text === 'A2' ? 0.6 : 0.1, dissenters: [] }) }
+        }
+      });
+
+      const result = await consilium.run('Задача');
+
+      assert.strictEqual(result.rounds.length, 2);
+      assert.strictEqual(result.metadata.consensus.reached, true);
+    });
+
+    it('не должен добавлять rounds при одном раунде', async () => {
+      const consilium = createTestConsilium({ arch: 'A', sec: 'B', consilium: 'Итог' });
+
+      const result = await consilium.run('Задача');
+
+      assert.strictEqual(result.rounds, undefined);
+    });
+  });
+
+  describe('Consilium.cancel', () => {
+    it('должен отменять только собственный запуск', async () => {
+      const responses = { arch: { text: 'A', delay: 50 }, sec: { text: 'B', delay: 50 }, consilium: 'Итог' };
+      const first = createTestConsilium(responses);
+      const second = createTestConsilium(responses);
+
+      const firstRun = first.run('Задача');
+      const secondRun = second.run('Задача');
+      first.cancel();
+
+      const [firstResult, secondResult] = await Promise.all([firstRun, secondRun]);
+
+      assert.strictEqual(firstResult.success, false);
+      assert.strictEqual(firstResult.metadata.cancelled, true);
+      assert.ok(firstResult.experts.every(e => e.errorCode === 'CANCELLED'));
+      assert.strictEqual(secondResult.success, true);
+      assert.strictEqual(second.getStatus(), 'completed');
+    });
+
+    it('должен отменять запуск через AbortSignal из RunOptions', async () => {
+      const consilium = createTestConsilium({ arch: { text: 'A', delay: 50 }, sec: 'B', consilium: 'Итог' });
+      const controller = new AbortController();
+
+      const running = consilium.run('Задача', { signal: controller.signal });
+      controller.abort();
+      const result = await running;
+
+      assert.strictEqual(consilium.getStatus(), 'cancelled');
+      assert.strictEqual(result.experts.find(e => e.agent === 'arch').errorCode, 'CANCELLED');
+    });
+
+    it('должен отменять активные запуски через устаревший cancel()', async () => {
+      const consilium = createTestConsilium({ arch: { text: 'A', delay: 50 }, sec: 'B', consilium: 'Итог' });
+
+      const running = consilium.run('Задача');
+      cancel();
+      const result = await running;
+      resetCancel();
+
+      assert.strictEqual(consilium.getStatus(), 'cancelled');
+      assert.strictEqual(result.experts.find(e => e.agent === 'arch').errorCode, 'CANCELLED');
+
+      const next = await createTestConsilium({ arch: 'A', sec: 'B', consilium: 'Итог' }).run('Задача');
+      assert.strictEqual(next.success, true);
+    });
+  });
+
+  describe('частичные результаты', () => {
+    it('должен сохранять частичный результат при ошибке председателя во всех форматах', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'consilium-'));
+      try {
+        for (const format of ['markdown', 'text', 'json']) {
+          const consilium = createTestConsilium(
+            {
+              arch: 'A',
+              sec: { text: '', success: false, errorCode: 'EMPTY_RESPONSE' },
+              consilium: { text: '[Таймаут consilium]', success: false, errorCode: 'TIMEOUT' }
+            },
+            { output: { file: 'result', format, progress: true, logLevel: 'info' } }
+          );
+          const filePath = join(dir, `result.${format}`);
+
+          const result = await consilium.run('Задача', { outputFile: filePath });
+          const saved = loadSavedResult(filePath);
+
+          assert.strictEqual(result.partial.reason, 'chair_failed');
+          assert.deepStrictEqual(saved.partial.pendingExperts, ['sec']);
+          assert.strictEqual(saved.task, 'Задача');
+          if (format === 'markdown') {
+            assert.ok(readFileSync(filePath, 'utf-8').includes('Консилиум не завершён'));
+          }
+        }
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('должен указывать ожидающих экспертов и причину при отмене', async () => {
+      const consilium = createTestConsilium({ arch: 'A', sec: { text: 'B', delay: 100 }, consilium: 'Итог' });
+
+      const running = consilium.run('Задача');
+      setTimeout(() => consilium.cancel('SIGINT'), 20);
+      const result = await running;
+
+      assert.strictEqual(result.partial.reason, 'cancelled');
+      assert.strictEqual(result.partial.message, 'SIGINT');
+      assert.deepStrictEqual(result.partial.pendingExperts, ['sec']);
+    });
+
+    it('должен при продолжении опрашивать только недостающих экспертов', async () => {
+      const prompts = [];
+      const record = (answer) => (prompt) => {
+        prompts.push(prompt);
+        return answer;
+      };
+      const consilium = createTestConsilium({
+        arch: record('A2'),
+        sec: record('B2'),
+        consilium: 'Итог'
+      });
+      const previous = {
+        text: '[Консилиум отменён]',
+        task: 'Задача',
+        experts: [
+          { agent: 'arch', text: 'A1', success: true },
+          { agent: 'sec', text: '[Отменено]', success: false, errorCode: 'CANCELLED' }
+        ],
+        chair: { agent: 'consilium', text: '[Отменено]', success: false },
+        totalTime: 0,
+        parallelTime: 0,
+        success: false,
+        partial: { reason: 'cancelled', pendingExperts: ['sec'] }
+      };
+
+      const result = await consilium.run('Задача', { resumeFrom: previous });
+
+      assert.deepStrictEqual(prompts, ['sec: Задача']);
+      assert.deepStrictEqual(result.experts.map(e => e.text), ['A1', 'B2']);
+      assert.strictEqual(result.success, true);
+      assert.strictEqual(result.partial, undefined);
+    });
+  });
+
+  describe('Consilium.stream', () => {
+    it('должен выдавать события экспертов, председателя и итоговый результат', async () => {
+      const consilium = createTestConsilium({ arch: 'A', sec: 'B', consilium: 'Итог' });
+      const events = [];
+
+      for await (const event of consilium.stream('Задача')) {
+        events.push(event);
+      }
+
+      const types = events.map(e => e.type);
+      assert.strictEqual(types.filter(t => t === 'expert_end').length, 2);
+      assert.ok(types.indexOf('chair_start') > types.lastIndexOf('expert_end'));
+      assert.strictEqual(types[types.length - 1], 'result');
+      assert.strictEqual(events[events.length - 1].result.text, 'Итог');
+    });
+
+    it('должен отменять запуск при досрочном выходе из цикла', async () => {
+      const consilium = createTestConsilium({
+        arch: 'A',
+        sec: { text: 'Долго', delay: 200 },
+        consilium: 'Итог'
+      });
+
+      for await (const event of consilium.stream('Задача')) {
+        if (event.type === 'expert_end') break;
+      }
+
+      assert.strictEqual(consilium.getStatus(), 'cancelled');
+    });
+  });
+
+  describe('formatServerSentEvent', () => {
+    it('должен форматировать событие как SSE-сообщение', () => {
+      const message = formatServerSentEvent({
+        type: 'error',
+        status: 'failed',
+        progress: 0,
+        timestamp: 1,
+        data: new Error('Сбой')
+      });
+
+      assert.ok(message.startsWith('event: error\ndata: '));
+      assert.ok(message.endsWith('\n\n'));
+      assert.strictEqual(JSON.parse(message.split('data: ')[1]).data.message, 'Сбой');
+    });
+  });
+});
@@ -6,6 +6,8 @@
 import { writeFileSync, existsSync, mkdirSync } from 'fs';
 import { dirname, resolve } from 'path';
 import type {
+  AgentListeners,
+  ConsensusReport,
   ConsiliumConfig,
   ConsiliumResult,
   AgentResult,
@@ -13,18 +15,35 @@ import type {
   ProgressCallback,
   ProgressEvent,
   ConsiliumStatus,
-  ConsiliumPlugin
+  ConsiliumStreamEvent,
+  ConsiliumPlugin,
+  TokenUsage
 } from './types.js';
 import { loadConfig, createMinimalConfig } from './config.js';
 import { 
+  buildChairPrompt,
+  buildExpertPrompt,
   callExpertsParallel, 
-  callChair, 
-  checkOpenCodeAvailable,
-  cancel,
-  resetCancel,
-  isCancelled
+  callDeliberationRound,
+  registerRun
 } from './agents.js';
+import { resolveBackend } from './backends.js';
+import { measureConsensus } from './consensus.js';
+import { checkQuorum, formatQuorumError } from './quorum.js';
+import type { QuorumCheck } from './quorum.js';
+import { addUsage, checkBudget, formatUsage } from './usage.js';
+import { buildProjectContext } from './context.js';
+import { buildVoteSchema, tallyVotes, formatVoteTally, VOTING_AGENT } from './voting.js';
+import {
+  resolveSynthesisStrategy,
+  synthesizeWithFallbacks,
+  CONCAT_AGENT,
+  FALLBACK_AGENT
+} from './synthesis.js';
 import { DEFAULT_CONFIG } from './defaults.js';
+import { serializeResumeState } from './resume.js';
+import { getMessages, resolveLocale } from './i18n.js';
+import { resolvePanelExperts } from './panels.js';
 
 /**
  * Класс Consilium - основной интерфейс для работы с консилиумом
@@ -34,6 +53,8 @@ export class Consilium {
   private status: ConsiliumStatus = 'idle';
   private progressCallbacks: Set<ProgressCallback> = new Set();
   private startTime: number = 0;
+  private abortController: AbortController | null = null;
+  private cancelReason: string | undefined;
 
   constructor(config?: Partial<ConsiliumConfig> | string) {
     if (typeof config === 'string') {
@@ -89,32 +110,56 @@ export class Consilium {
   /**
    * Отменить текущий запуск
    */
-  cancel(): void {
-    cancel();
+  cancel(reason?: string): void {
+    if (this.abortController && !this.abortController.signal.aborted) {
+      this.cancelReason = reason;
+      this.abortController.abort();
+    }
   }
 
   /**
    * Запустить консилиум
    */
   async run(task: string, options: RunOptions = {}): Promise<ConsiliumResult> {
+    const locale = resolveLocale(this.config);
+    const { errors } = getMessages(locale);
+
     if (this.status !== 'idle') {
-      throw new Error(`Consilium уже запущен (статус: ${this.status})`);
+      throw new Error(errors.alreadyRunning(this.status));
     }
 
-    resetCancel();
+    const abortController = new AbortController();
+    const { signal } = abortController;
+    this.abortController = abortController;
+    this.cancelReason = undefined;
     this.startTime = Date.now();
     this.status = 'running_experts';
 
     const mergedOptions = this.mergeOptions(options);
 
-    // Проверяем доступность OpenCode
-    if (!(await checkOpenCodeAvailable())) {
-      throw new Error('OpenCode CLI не найден. Установите opencode-cli.');
+    // Проверяем доступность бэкенда агентов
+    const backend = resolveBackend(this.config);
+    if (backend.isAvailable && !(await backend.isAvailable())) {
+      throw new Error(backend.name === 'opencode'
+        ? errors.opencodeNotFound
+        : errors.backendUnavailable(backend.name));
     }
 
     // Объединяем хуки
     const hooks = this.mergeHooks(mergedOptions.hooks);
 
+    // Внешний сигнал отменяет только этот запуск
+    const externalSignal = mergedOptions.signal;
+    const onExternalAbort = () => this.cancel(
+      typeof externalSignal?.reason === 'string' ? externalSignal.reason : 'AbortSignal'
+    );
+    if (externalSignal?.aborted) {
+      onExternalAbort();
+    } else {
+      externalSignal?.addEventListener('abort', onExternalAbort, { once: true });
+    }
+    const unregisterRun = registerRun(abortController);
+
     try {
       // Хук onStart
       if (hooks?.onStart) {
@@ -122,14 +167,42 @@ export class Consilium {
       }
 
       // Определяем экспертов
-      const experts = mergedOptions.experts 
+      const selectedExperts = mergedOptions.experts 
         ? this.config.experts.filter(e => mergedOptions.experts!.includes(e.name))
         : this.config.experts.filter(e => e.enabled !== false);
 
+      // Стратегия синтеза; голосование без председателя сводится к стратегии vote
+      const strategyOption = this.config.chair.strategy;
+      const voting = this.config.voting ?? (strategyOption === 'vote' ? {} : undefined);
+      const synthesize = resolveSynthesisStrategy(
+        strategyOption ?? (voting && !voting.useChair ? 'vote' : undefined),
+        locale
+      );
+
+      // В режиме голосования эксперты отвечают голосом по схеме
+      const experts = voting
+        ? selectedExperts.map(e => ({ ...e, outputSchema: buildVoteSchema(voting.options, locale) }))
+        : selectedExperts;
+
       if (experts.length === 0) {
-        throw new Error('Нет активных экспертов для консилиума');
+        throw new Error(errors.noActiveExperts);
       }
 
+      // Контекст проекта (файлы, diff) подставляется в промпт каждого эксперта
+      const projectContext = typeof mergedOptions.context === 'string'
+        ? { text: mergedOptions.context, files: [], skipped: [], truncated: false }
+        : mergedOptions.context
+          ? await buildProjectContext(mergedOptions.context, resolve(process.cwd(), this.config.cwd ?? '.'), locale)
+          : undefined;
+
+      // При продолжении повторно опрашиваем только экспертов без успешного ответа
+      const reusedResults = new Map(
+        (mergedOptions.resumeFrom?.experts ?? [])
+          .filter(r => r.success)
+          .map(r => [r.agent, r] as [string, AgentResult])
+      );
+      const pendingExperts = experts.filter(e => !reusedResults.has(e.name));
+
       // Эмитим прогресс
       this.emitProgress({
         type: 'expert_start',
@@ -138,14 +211,139 @@ export class Consilium {
         timestamp: Date.now()
       });
 
+      // Расход запуска; бюджет останавливает только ещё не начатые вызовы
+      let runUsage: TokenUsage | undefined;
+      const addRunUsage = (result: AgentResult) => {
+        if (!result.usage) return;
+        runUsage = runUsage ? addUsage(runUsage, result.usage) : result.usage;
+      };
+      const enforceBudget = () => {
+        const exceeded = runUsage && checkBudget(runUsage, this.config.budget, locale);
+        if (exceeded) {
+          this.cancel(exceeded);
+        }
+      };
+      const trackUsage = (result: AgentResult) => {
+        addRunUsage(result);
+        enforceBudget();
+      };
+
+      const rounds = Math.max(1, mergedOptions.rounds ?? this.config.deliberation?.rounds ?? 1);
+
       // Запускаем экспертов параллельно
-      const expertResults = await callExpertsParallel(experts, task, this.config);
+      let finishedExperts = reusedResults.size;
+      const expertProgress = () => Math.round((finishedExperts / (experts.length * rounds)) * 50);
+
+      const expertListeners = (round: number): AgentListeners => ({
+        onStart: (agent) => {
+          this.emitProgress({
+            type: 'expert_start',
+            agent,
+            round,
+            status: 'running_experts',
+            progress: expertProgress(),
+            timestamp: Date.now()
+          });
+        },
+        onChunk: (chunk) => {
+          this.emitProgress({
+            type: 'expert_chunk',
+            agent: chunk.agent,
+            round,
+            status: 'running_experts',
+            progress: expertProgress(),
+            timestamp: Date.now(),
+            data: chunk
+          });
+        },
+        onEnd: (result) => {
+          finishedExperts++;
+          trackUsage(result);
+          this.emitProgress({
+            type: 'expert_end',
+            agent: result.agent,
+            round,
+            status: 'running_experts',
+            progress: expertProgress(),
+            timestamp: Date.now(),
+            data: result
+          });
+        }
+      });
+
+      const freshResults = await callExpertsParallel(
+        pendingExperts, task, this.config, expertListeners(1), signal, projectContext?.text
+      );
+
+      // Сохраняем порядок экспертов из конфига
+      let roundResults = experts.map(expert =>
+        reusedResults.get(expert.name) ?? freshResults.find(r => r.agent === expert.name)!
+      );
+      const roundHistory: AgentResult[][] = [roundResults];
+
+      // Раунды обсуждения: эксперты видят мнения коллег и пересматривают позицию,
+      // пока не исчерпаны раунды или не достигнуто согласие
+      let consensus: ConsensusReport | null = null;
+      for (let round = 1; !signal.aborted; round++) {
+        if (round > 1) {
+          this.emitProgress({
+            type: 'expert_start',
+            round,
+            status: 'running_experts',
+            progress: expertProgress(),
+            timestamp: Date.now()
+          });
+
+          const previousRound = roundResults;
+          const deliberation = await callDeliberationRound(
+            experts, task, previousRound, round, this.config, expertListeners(round), signal, projectContext?.text
+          );
+          roundResults = experts.map(expert => deliberation.find(r => r.agent === expert.name)!);
+          roundHistory.push(roundResults);
+
+          if (signal.aborted) break;
+        }
+
+        if (this.config.deliberation?.consensus) {
+          // Расход судьи входит в расход запуска и бюджет
+          consensus = await measureConsensus(roundResults, task, round, this.config, signal, { onEnd: trackUsage });
+          if (consensus?.reached) break;
+        }
+
+        if (round >= rounds) break;
+      }
+
+      // Итоговое мнение эксперта — последний успешный ответ
+      const expertResults = experts.map((expert, index) => {
+        for (let i = roundHistory.length - 1; i >= 0; i--) {
+          if (roundHistory[i][index].success) {
+            return roundHistory[i][index];
+          }
+        }
+        return roundResults[index];
+      });
 
-      if (isCancelled()) {
+      if (signal.aborted) {
         this.status = 'cancelled';
-        return this.createCancelledResult(expertResults);
+        return this.finishCancelled(task, expertResults, undefined, mergedOptions.outputFile, runUsage);
+      }
+
+      // Без кворума синтез не запускается (или продолжается по успешным экспертам)
+      const quorumCheck = this.config.quorum ? checkQuorum(expertResults, this.config.quorum) : undefined;
+      if (quorumCheck && !quorumCheck.met && this.config.quorum!.onFailure !== 'proceed') {
+        // Собранные ответы сохраняются, чтобы --resume опросил только недостающих экспертов
+        const partialResult = this.createQuorumFailedResult(task, expertResults, quorumCheck);
+        if (runUsage) {
+          partialResult.usage = runUsage;
+        }
+        if (mergedOptions.outputFile !== undefined && this.config.output.file) {
+          await this.saveResult(partialResult, mergedOptions.outputFile);
+        }
+        throw Object.assign(new Error(partialResult.partial!.message), { result: partialResult });
       }
 
+      const vote = voting ? tallyVotes(expertResults, experts) : undefined;
+
       this.status = 'running_chair';
 
       this.emitProgress({
@@ -162,14 +360,38 @@ export class Consilium {
       const originalChairAgent = this.config.chair.agent;
       this.config.chair.agent = chairAgent;
 
-      // Вызываем председателя
-      const chairResult = await callChair(expertResults, task, this.config);
-
-      this.config.chair.agent = originalChairAgent;
+      // Синтезируем итоговый ответ выбранной стратегией
+      const { result: chairResult, failed: failedChairs } = await synthesizeWithFallbacks(synthesize, {
+        task,
+        experts: expertResults,
+        config: this.config,
+        listeners: {
+          // Бюджет проверяется перед каждым вызовом председателя, а оплаченный ответ не отбрасывается
+          onStart: enforceBudget,
+          onChunk: (chunk) => {
+            this.emitProgress({
+              type: 'chair_chunk',
+              agent: chunk.agent,
+              status: 'running_chair',
+              progress: 50,
+              timestamp: Date.now(),
+              data: chunk
+            });
+          },
+          onEnd: addRunUsage
+        },
+        signal,
+        vote,
+        context: vote && formatVoteTally(vote, locale),
+        projectContext: projectContext?.text
+      }).finally(() => {
+        this.config.chair.agent = originalChairAgent;
+      });
 
-      if (isCancelled()) {
+      // Готовый ответ председателя не превращается в отменённый результат
+      if (signal.aborted && !chairResult.success) {
         this.status = 'cancelled';
-        return this.createCancelledResult(expertResults, chairResult);
+        return this.finishCancelled(task, expertResults, chairResult, mergedOptions.outputFile, runUsage);
       }
 
       this.status = 'completed';
@@ -182,6 +404,7 @@ export class Consilium {
 
       const result: ConsiliumResult = {
         text: chairResult.text,
+        task,
         experts: expertResults,
         chair: chairResult,
         totalTime,
@@ -190,6 +413,43 @@ export class Consilium {
         metadata: mergedOptions.metadata ?? undefined
       };
 
+      if (vote) {
+        result.vote = vote;
+      }
+
+      if (failedChairs.length > 0) {
+        result.chairFallbacks = failedChairs;
+      }
+
+      if (runUsage) {
+        result.usage = runUsage;
+      }
+
+      if (roundHistory.length > 1) {
+        result.rounds = roundHistory;
+      }
+
+      if (consensus) {
+        result.metadata = { ...result.metadata, consensus };
+      }
+
+      if (quorumCheck && !quorumCheck.met) {
+        result.metadata = { ...result.metadata, quorum: quorumCheck };
+      }
+
+      if (projectContext) {
+        const { files, skipped, truncated } = projectContext;
+        result.metadata = { ...result.metadata, context: { files, skipped, truncated, size: projectContext.text.length } };
+      }
+
+      if (!chairResult.success) {
+        result.partial = {
+          reason: 'chair_failed',
+          pendingExperts: expertResults.filter(r => !r.success).map(r => r.agent),
+          message: chairResult.text
+        };
+      }
+
       // Сохраняем результат
       const outputPath = mergedOptions.outputFile;
       if (outputPath !== undefined && this.config.output.file) {
@@ -203,9 +463,11 @@ export class Consilium {
 
       this.emitProgress({
         type: 'chair_end',
+        agent: chairResult.agent,
         status: 'completed',
         progress: 100,
-        timestamp: Date.now()
+        timestamp: Date.now(),
+        data: chairResult
       });
 
       return result;
@@ -226,6 +488,73 @@ export class Consilium {
       });
 
       throw error;
+    } finally {
+      externalSignal?.removeEventListener('abort', onExternalAbort);
+      unregisterRun();
+      this.abortController = null;
+    }
+  }
+
+  /**
+   * Запустить консилиум и получать события через async-итератор
+   *
+   * Последним событием приходит `result` с итоговым ConsiliumResult.
+   * Досрочный выход из цикла (break) отменяет запущенные процессы.
+   */
+  async *stream(task: string, options: RunOptions = {}): AsyncGenerator<ConsiliumStreamEvent, void, undefined> {
+    const queue: ConsiliumStreamEvent[] = [];
+    let wakeUp: (() => void) | null = null;
+    let finished = false;
+    let failure: { error: unknown } | null = null;
+
+    const push = (event: ConsiliumStreamEvent) => {
+      queue.push(event);
+      wakeUp?.();
+    };
+
+    const unsubscribe = this.onProgress(push);
+
+    const running = this.run(task, options)
+      .then(
+        (result) => push({
+          type: 'result',
+          status: this.status,
+          progress: 100,
+          timestamp: Date.now(),
+          result
+        }),
+        (error: unknown) => {
+          failure = { error };
+        }
+      )
+      .finally(() => {
+        finished = true;
+        wakeUp?.();
+      });
+
+    try {
+      while (true) {
+        const event = queue.shift();
+        if (event) {
+          yield event;
+          continue;
+        }
+        if (finished) break;
+        await new Promise<void>(resolve => {
+          wakeUp = resolve;
+        });
+        wakeUp = null;
+      }
+
+      if (failure) {
+        throw (failure as { error: unknown }).error;
+      }
+    } finally {
+      unsubscribe();
+      if (!finished) {
+        this.cancel();
+        await running;
+      }
     }
   }
 
@@ -240,7 +569,7 @@ export class Consilium {
   /**
    * Dry run - возвращает сформированные промпты без вызова агентов
    */
-  dryRun(task: string): {
+  dryRun(task: string, projectContext?: string): {
     expertPrompts: Array<{ agent: string; prompt: string }>;
     chairPromptTemplate: string;
   } {
@@ -248,14 +577,10 @@ export class Consilium {
 
     const expertPrompts = experts.map(expert => ({
       agent: expert.name,
-      prompt: typeof expert.prompt === 'function' 
-        ? expert.prompt(task) 
-        : (expert.prompt?.replace(/\$\{task\}/g, task) || task)
+      prompt: buildExpertPrompt(expert, task, this.config, projectContext)
     }));
 
-    const chairPromptTemplate = this.config.chair.promptTemplate
-      ? this.config.chair.promptTemplate(task, [])
-      : '';
+    const chairPromptTemplate = buildChairPrompt([], task, this.config, projectContext);
 
     return {
       expertPrompts,
@@ -269,9 +594,13 @@ export class Consilium {
     return {
       ...DEFAULT_CONFIG,
       ...partial,
+      experts: partial.panel
+        ? resolvePanelExperts(partial.panel, partial.experts, { agents: partial.openCodeAgents, locale: resolveLocale(partial) })
+        : partial.experts ?? DEFAULT_CONFIG.experts,
       timeouts: { ...DEFAULT_CONFIG.timeouts, ...partial.timeouts },
       retry: { ...DEFAULT_CONFIG.retry, ...partial.retry },
-      output: { ...DEFAULT_CONFIG.output, ...partial.output }
+      output: { ...DEFAULT_CONFIG.output, ...partial.output },
+      deliberation: { ...DEFAULT_CONFIG.deliberation!, ...partial.deliberation }
     };
   }
 
@@ -327,50 +656,181 @@ export class Consilium {
         content = JSON.stringify(result, null, 2);
         break;
       case 'markdown':
-        content = this.formatAsMarkdown(result);
+        content = this.formatAsMarkdown(result, fullPath);
         break;
       default:
-        content = result.text;
+        content = result.partial
+          ? `${result.text}\n\n${this.formatPartialNotice(result, fullPath)}\n${serializeResumeState(result)}\n`
+          : result.text;
     }
 
     writeFileSync(fullPath, content, 'utf-8');
 
     if (!this.config.output.progress) {
-      console.log(`💾 Результат сохранён: ${fullPath}`);
+      console.log(getMessages(resolveLocale(this.config)).output.saved(fullPath));
     }
   }
 
-  private formatAsMarkdown(result: ConsiliumResult): string {
-    let md = `# Результат консилиума\n\n`;
-    md += `**Время выполнения:** ${(result.totalTime / 1000).toFixed(1)}с\n\n`;
+  private formatAsMarkdown(result: ConsiliumResult, filePath: string): string {
+    const locale = resolveLocale(this.config);
+    const t = getMessages(locale).output;
+
+    let md = `# ${t.title}\n\n`;
+    md += `**${t.time}:** ${(result.totalTime / 1000).toFixed(1)}${t.seconds}\n\n`;
+    if (result.usage) {
+      md += `**${t.usage}:** ${formatUsage(result.usage, locale)}\n\n`;
+    }
+    if (result.chairFallbacks) {
+      const failed = result.chairFallbacks.map(r => r.agent).join(', ');
+      md += `**${t.synthesis}:** ${result.chair.agent} (${t.afterFailure(failed)})\n\n`;
+    }
+    if (result.partial) {
+      md += `## ⚠️ ${t.notFinished}\n\n${this.formatPartialNotice(result, filePath)}\n\n`;
+    }
     md += `---\n\n`;
     md += result.text;
     md += `\n\n---\n\n`;
-    md += `## Мнения экспертов\n\n`;
 
-    for (const expert of result.experts) {
-      md += `### ${expert.agent.toUpperCase()}\n`;
-      md += `${expert.success ? '' : '⚠️ '}${expert.text}\n\n`;
+    // Склейка без председателя уже содержит мнения экспертов
+    if (result.chair.agent !== CONCAT_AGENT && result.chair.agent !== FALLBACK_AGENT) {
+      md += `## ${t.expertOpinions}\n\n`;
+
+      for (const expert of result.experts) {
+        md += `### ${expert.agent.toUpperCase()}${expert.cached ? ` ♻️ ${t.fromCache}` : ''}\n`;
+        md += `${expert.success ? '' : '⚠️ '}${expert.text}\n\n`;
+        if (expert.sessionId) {
+          md += `_${t.session}: \`${expert.sessionId}\`_\n\n`;
+        }
+      }
+    }
+
+    // Без председателя итоги голосования уже в тексте результата
+    if (result.vote && result.chair.agent !== VOTING_AGENT) {
+      md += `${formatVoteTally(result.vote, locale)}\n\n`;
+    }
+
+    const consensus = result.metadata?.consensus as ConsensusReport | undefined;
+    if (consensus) {
+      md += `## ${t.consensus}\n\n`;
+      md += `- **${t.score}:** ${Math.round(consensus.score * 100)}% (${t.round(consensus.round)}${consensus.reached ? `, ${t.thresholdReached}` : ''})\n`;
+      md += `- **${t.dissenters}:** ${consensus.dissenters.length > 0 ? consensus.dissenters.join(', ') : t.none}\n`;
+      if (consensus.summary) {
+        md += `- **${t.differences}:** ${consensus.summary}\n`;
+      }
+      md += `\n`;
+    }
+
+    if (result.rounds) {
+      md += `## ${t.discussion}\n\n`;
+      result.rounds.forEach((round, index) => {
+        md += `### ${t.roundTitle(index + 1)}\n\n`;
+        for (const expert of round) {
+          md += `#### ${expert.agent.toUpperCase()}\n`;
+          md += `${expert.success ? '' : '⚠️ '}${expert.text}\n\n`;
+        }
+      });
+    }
+
+    if (result.partial) {
+      md += `${serializeResumeState(result)}\n`;
     }
 
     return md;
   }
 
+  private formatPartialNotice(result: ConsiliumResult, filePath: string): string {
+    const t = getMessages(resolveLocale(this.config)).output;
+    const partial = result.partial!;
+    const reason = partial.reason === 'cancelled'
+      ? t.cancelled
+      : partial.reason === 'quorum_failed' ? t.quorumFailed : t.chairFailed;
+    const pending = partial.pendingExperts.length > 0 ? partial.pendingExperts.join(', ') : t.none;
+
+    let notice = `- **${t.reason}:** ${reason}${partial.message ? ` (${partial.message})` : ''}\n`;
+    notice += `- **${t.pending}:** ${pending}\n`;
+    notice += `- **${t.resume}:** \`consilium --resume ${filePath}\``;
+    return notice;
+  }
+
+  /**
+   * Формирует результат отменённого запуска и сохраняет собранные ответы
+   */
+  private async finishCancelled(
+    task: string,
+    experts: AgentResult[],
+    chair: AgentResult | undefined,
+    outputPath: string | undefined,
+    usage?: TokenUsage
+  ): Promise<ConsiliumResult> {
+    const result = this.createCancelledResult(task, experts, chair);
+    if (usage) {
+      result.usage = usage;
+    }
+    if (outputPath !== undefined && this.config.output.file) {
+      await this.saveResult(result, outputPath);
+    }
+    return result;
+  }
+
   private createCancelledResult(
+    task: string,
     experts: AgentResult[],
     chair?: AgentResult
   ): ConsiliumResult {
+    const { results } = getMessages(resolveLocale(this.config));
     return {
-      text: '[Консилиум отменён]',
+      text: results.runCancelled,
+      task,
       experts,
-      chair: chair || { agent: this.config.chair.agent, text: '[Отменено]', success: false },
+      chair: chair || {
+        agent: this.config.chair.agent,
+        text: results.cancelled,
+        success: false,
+        errorCode: 'CANCELLED'
+      },
       totalTime: Date.now() - this.startTime,
       parallelTime: 0,
       success: false,
+      partial: {
+        reason: 'cancelled',
+        pendingExperts: experts.filter(r => !r.success).map(r => r.agent),
+        message: this.cancelReason
+      },
       metadata: { cancelled: true }
     };
   }
 
+  /**
+   * Формирует результат запуска, не набравшего кворум: председатель не вызывался
+   */
+  private createQuorumFailedResult(
+    task: string,
+    experts: AgentResult[],
+    check: QuorumCheck
+  ): ConsiliumResult {
+    const locale = resolveLocale(this.config);
+    const message = formatQuorumError(check, locale);
+    return {
+      text: `[${message}]`,
+      task,
+      experts,
+      chair: {
+        agent: this.config.chair.agent,
+        text: getMessages(locale).results.chairNotStarted,
+        success: false
+      },
+      totalTime: Date.now() - this.startTime,
+      parallelTime: 0,
+      success: false,
+      partial: {
+        reason: 'quorum_failed',
+        pendingExperts: experts.filter(r => !r.success).map(r => r.agent),
+        message
+      },
+      metadata: { quorum: check }
+    };
+  }
+
   private logWarnings(warnings: string[]): void {
     for (const warning of warnings) {
       console.warn(`⚠️ ${warning}`);
@@ -413,4 +873,21 @@ export async function askConsilium(
 export * from './types.js';
 export * from './config.js';
 export * from './agents.js';
+export * from './invocation.js';
+export * from './backends.js';
+export * from './sse.js';
+export * from './resume.js';
+export * from './consensus.js';
+export * from './schema.js';
+export * from './voting.js';
+export * from './synthesis.js';
+export * from './quorum.js';
+export * from './errors.js';
+export * from './usage.js';
+export * from './transcript.js';
+export * from './cache.js';
+export * from './context.js';
+export * from './template.js';
+export * from './i18n.js';
+export * from './panels.js';
 export { DEFAULT_CONFIG } from './defaults.js';
@@ -0,0 +1,57 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { 
+  buildRunArgs,
+  resolveInvocationStrategy,
+  isInvocationMode
+} from './invocation.js';
+
+describe('invocation.ts', () => {
+  describe('buildRunArgs', () => {
+    it('должен вызывать primary-агента через --agent по умолчанию', () => {
+      const args = buildRunArgs({ agent: 'arch', prompt: 'Задача' });
+      
+      assert.deepStrictEqual(args, ['run', '--format', 'json', '--port', '0', '--agent', 'arch', 'Задача']);
+    });
+
+    it('должен упоминать subagent в промпте', () => {
+      const args = buildRunArgs({ agent: 'reviewer', prompt: 'Задача' }, 'subagent');
+      
+      assert.strictEqual(args[args.length - 1], '@reviewer Задача');
+      assert.ok(!args.includes('--agent'));
+    });
+
+    it('должен добавлять --model при переопределении модели', () => {
+      const args = buildRunArgs({ agent: 'arch', prompt: 'Задача', model: 'opencode/glm-5' }, 'default');
+      
+      assert.deepStrictEqual(args.slice(5), ['--model', 'opencode/glm-5', 'Задача']);
+    });
+
+    it('должен вставлять дополнительные аргументы перед промптом', () => {
+      const args = buildRunArgs({ agent: 'arch', prompt: 'Задача' }, 'agent', ['--print-logs']);
+      
+      assert.deepStrictEqual(args.slice(5), ['--print-logs', '--agent', 'arch', 'Задача']);
+    });
+
+    it('должен поддерживать пользовательскую стратегию', () => {
+      const args = buildRunArgs({ agent: 'arch', prompt: 'Задача' }, ({ agent }) => [`custom:${agent}`]);
+      
+      assert.strictEqual(args[args.length - 1], 'custom:arch');
+    });
+  });
+
+  describe('resolveInvocationStrategy', () => {
+    it('должен использовать режим по умолчанию для неизвестного режима', () => {
+      assert.strictEqual(resolveInvocationStrategy('unknown'), resolveInvocationStrategy('agent'));
+      assert.strictEqual(resolveInvocationStrategy(undefined), resolveInvocationStrategy('agent'));
+    });
+  });
+
+  describe('isInvocationMode', () => {
+    it('должен распознавать встроенные режимы', () => {
+      assert.strictEqual(isInvocationMode('agent'), true);
+      assert.strictEqual(isInvocationMode('subagent'), true);
+      assert.strictEqual(isInvocationMode('toString'), false);
+    });
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * @fileoverview Стратегии вызова агентов OpenCode
+ * @module opencode-consilium
+ */
+
+import type { InvocationMode, InvocationStrategy, InvocationTarget } from './types.js';
+
+/**
+ * Аргументы `--model`, если модель переопределена
+ */
+function modelArgs(model?: string): string[] {
+  return model ? ['--model', model] : [];
+}
+
+/**
+ * Встроенные стратегии вызова
+ */
+export const INVOCATION_STRATEGIES: Record<InvocationMode, InvocationStrategy> = {
+  // Primary-агент: вызываем напрямую через --agent
+  agent: ({ agent, prompt, model }) => [...modelArgs(model), '--agent', agent, prompt],
+  // Subagent нельзя вызвать через --agent, поэтому упоминаем его в промпте
+  subagent: ({ agent, prompt, model }) => [...modelArgs(model), `@${agent} ${prompt}`],
+  // Агент и модель по умолчанию из opencode.json
+  default: ({ prompt, model }) => [...modelArgs(model), prompt]
+};
+
+/**
+ * Режим вызова по умолчанию
+ */
+export const DEFAULT_INVOCATION_MODE: InvocationMode = 'agent';
+
+/**
+ * Проверяет, является ли значение встроенным режимом вызова
+ */
+export function isInvocationMode(value: unknown): value is InvocationMode {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(INVOCATION_STRATEGIES, value);
+}
+
+/**
+ * Возвращает стратегию по режиму или функции
+ *
+ * Неизвестный режим заменяется режимом по умолчанию (validateConfig предупреждает о нём заранее).
+ */
+export function resolveInvocationStrategy(
+  invocation?: InvocationMode | InvocationStrategy
+): InvocationStrategy {
+  if (typeof invocation === 'function') {
+    return invocation;
+  }
+
+  return INVOCATION_STRATEGIES[isInvocationMode(invocation) ? invocation : DEFAULT_INVOCATION_MODE];
+}
+
+/**
+ * Формирует аргументы `opencode run` для агента
+ */
+export function buildRunArgs(
+  target: InvocationTarget,
+  invocation?: InvocationMode | InvocationStrategy,
+  extraArgs: string[] = []
+): string[] {
+  const strategy = resolveInvocationStrategy(invocation);
+  return [
+    'run',
+    '--format', 'json',
+    '--port', '0',
+    ...extraArgs,
+    ...strategy(target)
+  ];
+}
@@ -0,0 +1,54 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { EXPERT_PANELS, EXPERT_ROLES, isPanelName, resolvePanelExperts } from './panels.js';
+import { MESSAGES, SUPPORTED_LOCALES } from './i18n.js';
+
+describe('panels.ts', () => {
+  describe('resolvePanelExperts', () => {
+    it('должен возвращать экспертов панели по приоритету', () => {
+      const experts = resolvePanelExperts('code-review');
+
+      assert.deepStrictEqual(experts.map(e => e.name), ['arch', 'sec', 'perf', 'qa', 'dx']);
+      assert.deepStrictEqual(experts.map(e => e.priority), [1, 2, 3, 4, 5]);
+      assert.ok(experts.every(e => e.enabled));
+    });
+
+    it('должен сохранять настройки одноимённых экспертов', () => {
+      const experts = resolvePanelExperts('code-review', [
+        { name: 'sec', model: 'anthropic/claude', enabled: false, priority: 9 },
+        { name: 'ux', prompt: 'не входит в панель' }
+      ]);
+
+      assert.deepStrictEqual(experts[1], { name: 'sec', model: 'anthropic/claude', enabled: true, priority: 2 });
+      assert.ok(!experts.some(e => e.name === 'ux'));
+    });
+
+    it('должен вызывать роли без агента в opencode.json в режиме default', () => {
+      const experts = resolvePanelExperts('code-review', [{ name: 'perf', invocation: 'agent' }], {
+        agents: { arch: { model: 'openrouter/free' }, sec: {} }
+      });
+
+      assert.deepStrictEqual(experts.map(e => e.invocation), [undefined, undefined, 'agent', 'default', 'default']);
+    });
+
+    it('должен отклонять неизвестную панель', () => {
+      assert.strictEqual(isPanelName('code-review'), true);
+      assert.strictEqual(isPanelName('toString'), false);
+      assert.throws(() => resolvePanelExperts('nope'), /Неизвестная панель экспертов: nope/);
+      assert.throws(() => resolvePanelExperts('nope', [], { locale: 'en' }), /Unknown expert panel: nope/);
+    });
+  });
+
+  describe('каталоги', () => {
+    it('должны содержать промпты ролей и тексты панелей на всех языках', () => {
+      for (const locale of SUPPORTED_LOCALES) {
+        const { experts, panels } = MESSAGES[locale].prompts;
+        assert.deepStrictEqual(EXPERT_ROLES.filter(role => !experts[role]), [], locale);
+        for (const panel of Object.keys(EXPERT_PANELS)) {
+          assert.ok(panels[panel].sections.length > 0, `${locale}/${panel}`);
+          assert.ok(EXPERT_PANELS[panel].every(role => EXPERT_ROLES.includes(role)));
+        }
+      }
+    });
+  });
+});
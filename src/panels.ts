@@ -0,0 +1,88 @@
+/**
+ * @fileoverview Библиотека ролей экспертов и именованные панели
+ * @module opencode-consilium
+ */
+
+import type { ExpertConfig, Locale, OpenCodeAgentDefinition, PanelName } from './types.js';
+import { getMessages } from './i18n.js';
+
+/**
+ * Встроенные роли экспертов (промпты — в каталогах языков)
+ */
+export const EXPERT_ROLES: readonly string[] = [
+  'arch',
+  'ux',
+  'ba',
+  'sec',
+  'perf',
+  'qa',
+  'devops',
+  'data',
+  'legal',
+  'a11y',
+  'dx',
+  'finops'
+];
+
+/**
+ * Состав встроенных панелей в порядке приоритета
+ */
+export const EXPERT_PANELS: Record<PanelName, string[]> = {
+  'code-review': ['arch', 'sec', 'perf', 'qa', 'dx'],
+  'product-discovery': ['ux', 'ba', 'data', 'legal', 'a11y'],
+  'incident-postmortem': ['devops', 'arch', 'sec', 'perf', 'data']
+};
+
+/**
+ * Проверяет, является ли значение встроенной панелью
+ */
+export function isPanelName(value: unknown): value is PanelName {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(EXPERT_PANELS, value);
+}
+
+/**
+ * Настройки подстановки панели
+ */
+export interface PanelResolveOptions {
+  /** Агенты из opencode.json; без них режим вызова ролей не меняется */
+  agents?: Record<string, OpenCodeAgentDefinition>;
+  /** Язык сообщений об ошибках */
+  locale?: Locale;
+}
+
+/**
+ * Возвращает экспертов панели
+ *
+ * Настройки одноимённых экспертов из `experts` (промпт, модель, таймаут) сохраняются.
+ * Роли, которых нет среди агентов opencode.json, вызываются в режиме default:
+ * через --agent они бы не нашлись; subagent'ы — в режиме subagent.
+ */
+export function resolvePanelExperts(
+  panel: string,
+  experts: ExpertConfig[] = [],
+  options: PanelResolveOptions = {}
+): ExpertConfig[] {
+  if (!isPanelName(panel)) {
+    throw new Error(getMessages(options.locale).errors.unknownPanel(panel));
+  }
+
+  const { agents } = options;
+
+  return EXPERT_PANELS[panel].map((name, index) => {
+    const expert: ExpertConfig = {
+      ...experts.find(e => e.name === name),
+      name,
+      enabled: true,
+      priority: index + 1
+    };
+
+    if (!expert.invocation && agents) {
+      if (!Object.prototype.hasOwnProperty.call(agents, name)) {
+        expert.invocation = 'default';
+      } else if (agents[name].mode === 'subagent') {
+        expert.invocation = 'subagent';
+      }
+    }
+    return expert;
+  });
+}
@@ -0,0 +1,52 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { checkQuorum, formatQuorumError } from './quorum.js';
+
+const results = [
+  { agent: 'arch', text: 'A', success: true },
+  { agent: 'ux', text: 'B', success: true },
+  { agent: 'sec', text: '[Таймаут sec]', success: false, errorCode: 'TIMEOUT' }
+];
+
+describe('quorum.ts', () => {
+  describe('checkQuorum', () => {
+    it('должен считать кворум по числу успешных экспертов', () => {
+      assert.strictEqual(checkQuorum(results, { min: 2 }).met, true);
+      assert.strictEqual(checkQuorum(results, { min: 3 }).met, false);
+    });
+
+    it('должен округлять долю вверх', () => {
+      const check = checkQuorum(results, { min: 0.7 });
+
+      assert.strictEqual(check.needed, 3);
+      assert.strictEqual(check.met, false);
+    });
+
+    it('должен требовать ответа обязательных экспертов', () => {
+      const check = checkQuorum(results, { min: 1, required: ['arch', 'sec'] });
+
+      assert.strictEqual(check.met, false);
+      assert.deepStrictEqual(check.missingRequired, ['sec']);
+    });
+  });
+
+  describe('formatQuorumError', () => {
+    it('должен перечислять все причины', () => {
+      const message = formatQuorumError(checkQuorum(results, { min: 3, required: ['sec'] }));
+
+      assert.strictEqual(
+        message,
+        'Кворум не набран: ответили 2 из 3 необходимых экспертов; нет ответа обязательных экспертов: sec'
+      );
+    });
+
+    it('должен писать сообщение на языке locale', () => {
+      const message = formatQuorumError(checkQuorum(results, { min: 3, required: ['sec'] }), 'en');
+
+      assert.strictEqual(
+        message,
+        'Quorum not met: 2 of 3 required experts answered; no answer from required experts: sec'
+      );
+    });
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * @fileoverview Проверка кворума экспертов перед синтезом
+ * @module opencode-consilium
+ */
+
+import type { AgentResult, Locale, QuorumConfig } from './types.js';
+import { getMessages } from './i18n.js';
+
+/**
+ * Результат проверки кворума
+ */
+export interface QuorumCheck {
+  /** Кворум набран */
+  met: boolean;
+  /** Сколько успешных ответов требуется */
+  needed: number;
+  /** Сколько успешных ответов получено */
+  answered: number;
+  /** Обязательные эксперты без успешного ответа */
+  missingRequired: string[];
+}
+
+/**
+ * Считает требуемое число успешных ответов: доля округляется вверх
+ */
+function resolveMinimum(min: number | undefined, total: number): number {
+  if (min === undefined || min <= 0) {
+    return 0;
+  }
+  return min < 1 ? Math.ceil(min * total) : Math.ceil(min);
+}
+
+/**
+ * Проверяет, набран ли кворум среди ответов экспертов
+ */
+export function checkQuorum(results: AgentResult[], quorum: QuorumConfig): QuorumCheck {
+  const successful = new Set(results.filter(r => r.success).map(r => r.agent));
+  const needed = resolveMinimum(quorum.min, results.length);
+  const missingRequired = (quorum.required ?? []).filter(name => !successful.has(name));
+
+  return {
+    met: successful.size >= needed && missingRequired.length === 0,
+    needed,
+    answered: successful.size,
+    missingRequired
+  };
+}
+
+/**
+ * Формирует понятное сообщение о ненабранном кворуме
+ */
+export function formatQuorumError(check: QuorumCheck, locale?: Locale): string {
+  const { errors } = getMessages(locale);
+  const reasons: string[] = [];
+  if (check.answered < check.needed) {
+    reasons.push(errors.quorumAnswered(check.answered, check.needed));
+  }
+  if (check.missingRequired.length > 0) {
+    reasons.push(errors.quorumMissingRequired(check.missingRequired.join(', ')));
+  }
+  return errors.quorumNotMet(reasons.join('; '));
+}
@@ -0,0 +1,86 @@
+/**
+ * @fileoverview Сохранение и загрузка состояния для продолжения консилиума
+ * @module opencode-consilium
+ */
+
+import { readFileSync, existsSync } from 'fs';
+import { resolve } from 'path';
+import type { ConsiliumResult, Locale } from './types.js';
+import { getMessages } from './i18n.js';
+
+/**
+ * Маркер состояния в markdown и text файлах
+ */
+const RESUME_MARKER = 'consilium:resume';
+
+/**
+ * Сериализует результат в HTML-комментарий для вставки в markdown/text
+ */
+export function serializeResumeState(result: ConsiliumResult): string {
+  // Внутри JSON символ > встречается только в строках, экранируем его ради -->
+  const json = JSON.stringify(result).replace(/>/g, '\\u003e');
+  return `<!-- ${RESUME_MARKER} ${json} -->`;
+}
+
+/**
+ * Проверяет, похож ли объект на сохранённый ConsiliumResult
+ */
+function isConsiliumResult(value: unknown): value is ConsiliumResult {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    Array.isArray((value as ConsiliumResult).experts) &&
+    typeof (value as ConsiliumResult).text === 'string'
+  );
+}
+
+/**
+ * Извлекает результат из содержимого файла любого формата
+ */
+export function parseSavedResult(content: string): ConsiliumResult | null {
+  try {
+    const parsed: unknown = JSON.parse(content);
+    if (isConsiliumResult(parsed)) {
+      return parsed;
+    }
+  } catch {
+    // Не JSON — ищем маркер
+  }
+
+  const markerStart = content.lastIndexOf(`<!-- ${RESUME_MARKER} `);
+  if (markerStart === -1) {
+    return null;
+  }
+
+  const jsonStart = markerStart + RESUME_MARKER.length + 6;
+  const jsonEnd = content.indexOf(' -->', jsonStart);
+  if (jsonEnd === -1) {
+    return null;
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(content.substring(jsonStart, jsonEnd));
+    return isConsiliumResult(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Загружает сохранённый результат для --resume
+ */
+export function loadSavedResult(filePath: string, locale?: Locale): ConsiliumResult {
+  const { errors } = getMessages(locale);
+  const fullPath = resolve(process.cwd(), filePath);
+
+  if (!existsSync(fullPath)) {
+    throw new Error(errors.resultFileNotFound(fullPath));
+  }
+
+  const result = parseSavedResult(readFileSync(fullPath, 'utf-8'));
+  if (!result) {
+    throw new Error(errors.noSavedState(fullPath));
+  }
+
+  return result;
+}
@@ -0,0 +1,67 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { createScheduler, resolveScheduler } from './scheduler.js';
+
+describe('scheduler.ts', () => {
+  describe('createScheduler', () => {
+    it('должен ограничивать число одновременных запусков', async () => {
+      const scheduler = createScheduler({ maxConcurrency: 2 });
+      let running = 0;
+      let peak = 0;
+
+      await Promise.all([1, 2, 3, 4, 5].map(async () => {
+        const slot = await scheduler.acquire();
+        running++;
+        peak = Math.max(peak, running);
+        await new Promise(resolve => setTimeout(resolve, 10));
+        running--;
+        slot.release();
+      }));
+
+      assert.strictEqual(peak, 2);
+    });
+
+    it('должен выдавать слоты по приоритету и считать время ожидания', async () => {
+      const scheduler = createScheduler({ maxConcurrency: 1 });
+      const first = await scheduler.acquire();
+      const started = [];
+
+      const waiting = [
+        scheduler.acquire({ priority: 3 }).then(slot => { started.push('low'); return slot; }),
+        scheduler.acquire({ priority: 1 }).then(slot => { started.push('high'); slot.release(); return slot; })
+      ];
+
+      await new Promise(resolve => setTimeout(resolve, 20));
+      first.release();
+      const [low, high] = await Promise.all(waiting);
+      low.release();
+
+      assert.deepStrictEqual(started, ['high', 'low']);
+      assert.ok(high.waited >= 15);
+    });
+
+    it('должен придерживать запросы сверх лимита модели, не блокируя другие', async () => {
+      const scheduler = createScheduler({ rateLimits: { 'openrouter': 1 } });
+      const controller = new AbortController();
+
+      const first = await scheduler.acquire({ model: 'openrouter/free' });
+      first.release();
+
+      const limited = scheduler.acquire({ model: 'openrouter/other', signal: controller.signal });
+      const other = await scheduler.acquire({ model: 'anthropic/claude' });
+      other.release();
+
+      controller.abort();
+      assert.strictEqual(await limited, null);
+    });
+  });
+
+  describe('resolveScheduler', () => {
+    it('должен возвращать null без лимитов и одну очередь на конфиг', () => {
+      const limited = { maxConcurrency: 2 };
+
+      assert.strictEqual(resolveScheduler({}), null);
+      assert.strictEqual(resolveScheduler(limited), resolveScheduler(limited));
+    });
+  });
+});
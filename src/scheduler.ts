@@ -0,0 +1,230 @@
+/**
+ * @fileoverview Очередь запуска экспертов: лимит параллельности и запросов в минуту
+ * @module opencode-consilium
+ */
+
+import type { ConsiliumConfig } from './types.js';
+
+/**
+ * Окно лимита запросов
+ */
+const RATE_WINDOW_MS = 60_000;
+
+/**
+ * Запрос на запуск агента
+ */
+export interface ScheduleRequest {
+  /** Приоритет (меньше — раньше) */
+  priority?: number;
+  /** Модель (provider/model) для лимита запросов */
+  model?: string;
+  /** Отмена ожидания в очереди */
+  signal?: AbortSignal;
+}
+
+/**
+ * Выданный слот запуска
+ */
+export interface ScheduleSlot {
+  /** Время ожидания в очереди (мс) */
+  waited: number;
+  /** Освобождает слот */
+  release: () => void;
+}
+
+/**
+ * Очередь запуска агентов
+ */
+export interface Scheduler {
+  /** Ждёт свободный слот; null, если ожидание отменено */
+  acquire(request?: ScheduleRequest): Promise<ScheduleSlot | null>;
+}
+
+/**
+ * Настройки очереди
+ */
+export interface SchedulerOptions {
+  maxConcurrency?: number;
+  rateLimits?: Record<string, number>;
+}
+
+/**
+ * Ожидающий запрос
+ */
+interface PendingRequest {
+  priority: number;
+  order: number;
+  model?: string;
+  /** Не получил слот при первой раздаче и ждал в очереди */
+  deferred: boolean;
+  start: () => void;
+}
+
+/**
+ * Находит лимит для модели: точное совпадение, затем провайдер, затем '*'
+ */
+function findRateLimit(
+  rateLimits: Record<string, number>,
+  model?: string
+): { key: string; perMinute: number } | null {
+  const candidates = model ? [model, model.split('/')[0], '*'] : ['*'];
+
+  for (const key of candidates) {
+    const perMinute = rateLimits[key];
+    if (perMinute !== undefined && perMinute > 0) {
+      return { key, perMinute };
+    }
+  }
+  return null;
+}
+
+/**
+ * Создаёт очередь с приоритетами, лимитом параллельности и лимитами запросов в минуту
+ */
+export function createScheduler(options: SchedulerOptions = {}): Scheduler {
+  const maxConcurrency = options.maxConcurrency && options.maxConcurrency > 0
+    ? options.maxConcurrency
+    : Infinity;
+  const rateLimits = options.rateLimits ?? {};
+
+  const queue: PendingRequest[] = [];
+  const windows = new Map<string, number[]>();
+  let running = 0;
+  let order = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let dispatchQueued = false;
+
+  /**
+   * Момент, когда по лимиту можно сделать следующий запрос
+   */
+  const availableAt = (key: string, perMinute: number, now: number): number => {
+    const starts = (windows.get(key) ?? []).filter(t => t > now - RATE_WINDOW_MS);
+    windows.set(key, starts);
+    return starts.length < perMinute ? now : starts[0] + RATE_WINDOW_MS;
+  };
+
+  const dispatch = (): void => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+
+    const now = Date.now();
+    let nextAt = Infinity;
+    queue.sort((a, b) => a.priority - b.priority || a.order - b.order);
+
+    // Запрос, упёршийся в лимит своей модели, не задерживает остальных
+    for (let i = 0; i < queue.length && running < maxConcurrency;) {
+      const request = queue[i];
+      const limit = findRateLimit(rateLimits, request.model);
+
+      if (limit) {
+        const at = availableAt(limit.key, limit.perMinute, now);
+        if (at > now) {
+          nextAt = Math.min(nextAt, at);
+          i++;
+          continue;
+        }
+        windows.get(limit.key)!.push(now);
+      }
+
+      queue.splice(i, 1);
+      running++;
+      request.start();
+    }
+
+    for (const request of queue) {
+      request.deferred = true;
+    }
+
+    if (nextAt !== Infinity && running < maxConcurrency) {
+      timer = setTimeout(dispatch, nextAt - now);
+    }
+  };
+
+  /**
+   * Откладывает раздачу слотов до конца текущего шага,
+   * чтобы одновременно поставленные запросы упорядочились по приоритету
+   */
+  const queueDispatch = (): void => {
+    if (dispatchQueued) return;
+    dispatchQueued = true;
+    queueMicrotask(() => {
+      dispatchQueued = false;
+      dispatch();
+    });
+  };
+
+  return {
+    acquire(request: ScheduleRequest = {}): Promise<ScheduleSlot | null> {
+      const { signal } = request;
+
+      return new Promise(resolve => {
+        if (signal?.aborted) {
+          resolve(null);
+          return;
+        }
+
+        const enqueuedAt = Date.now();
+
+        const pending: PendingRequest = {
+          priority: request.priority ?? Number.MAX_SAFE_INTEGER,
+          order: order++,
+          model: request.model,
+          deferred: false,
+          start: () => {
+            signal?.removeEventListener('abort', onAbort);
+            let released = false;
+            resolve({
+              waited: pending.deferred ? Date.now() - enqueuedAt : 0,
+              release: () => {
+                if (released) return;
+                released = true;
+                running--;
+                dispatch();
+              }
+            });
+          }
+        };
+
+        const onAbort = () => {
+          const index = queue.indexOf(pending);
+          if (index !== -1) {
+            queue.splice(index, 1);
+          }
+          resolve(null);
+          dispatch();
+        };
+
+        signal?.addEventListener('abort', onAbort, { once: true });
+        queue.push(pending);
+        queueDispatch();
+      });
+    }
+  };
+}
+
+/**
+ * Кэш очередей по конфигурации: лимиты действуют на все запуски одного консилиума
+ */
+const schedulerCache: WeakMap<ConsiliumConfig, Scheduler> = new WeakMap();
+
+/**
+ * Возвращает очередь для конфигурации или null, если лимиты не заданы
+ */
+export function resolveScheduler(config: ConsiliumConfig): Scheduler | null {
+  const hasRateLimits = config.rateLimits && Object.keys(config.rateLimits).length > 0;
+  if (!config.maxConcurrency && !hasRateLimits) {
+    return null;
+  }
+
+  let scheduler = schedulerCache.get(config);
+  if (!scheduler) {
+    scheduler = createScheduler({
+      maxConcurrency: config.maxConcurrency,
+      rateLimits: config.rateLimits
+    });
+    schedulerCache.set(config, scheduler);
+  }
+  return scheduler;
+}
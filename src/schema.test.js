@@ -0,0 +1,90 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import {
+  extractJson,
+  validateOutput,
+  parseStructuredOutput,
+  buildSchemaInstruction
+} from './schema.js';
+
+const verdictSchema = {
+  type: 'object',
+  required: ['verdict', 'risks', 'confidence'],
+  properties: {
+    verdict: { type: 'string', enum: ['approve', 'reject'] },
+    risks: { type: 'array', items: { type: 'string' } },
+    confidence: { type: 'number', minimum: 0, maximum: 1 }
+  }
+};
+
+describe('schema.ts', () => {
+  describe('extractJson', () => {
+    it('должен извлекать JSON из блока ```json', () => {
+      const data = extractJson('Вот ответ:\n```json\n{"verdict": "approve"}\n```\nГотово');
+
+      assert.deepStrictEqual(data, { verdict: 'approve' });
+    });
+
+    it('должен извлекать JSON из текста без блока', () => {
+      assert.deepStrictEqual(extractJson('Итог: {"a": [1, 2]} — всё'), { a: [1, 2] });
+    });
+
+    it('должен бросать ошибку, если JSON нет', () => {
+      assert.throws(() => extractJson('Просто текст'), /В ответе нет JSON/);
+    });
+  });
+
+  describe('validateOutput', () => {
+    it('должен принимать значение по схеме', () => {
+      const errors = validateOutput({ verdict: 'approve', risks: ['XSS'], confidence: 0.7 }, verdictSchema);
+
+      assert.deepStrictEqual(errors, []);
+    });
+
+    it('должен перечислять все нарушения с путём к полю', () => {
+      const errors = validateOutput({ verdict: 'maybe', risks: ['XSS', 3], confidence: 2 }, verdictSchema);
+
+      assert.strictEqual(errors.length, 3);
+      assert.ok(errors.some(e => e.startsWith('$.verdict:')));
+      assert.ok(errors.some(e => e.startsWith('$.risks[1]: ожидался string')));
+      assert.ok(errors.some(e => e.startsWith('$.confidence: больше 1')));
+    });
+
+    it('должен сообщать об отсутствии обязательных полей', () => {
+      const errors = validateOutput({ verdict: 'approve' }, verdictSchema);
+
+      assert.deepStrictEqual(errors, [
+        '$.risks: обязательное поле отсутствует',
+        '$.confidence: обязательное поле отсутствует'
+      ]);
+    });
+
+    it('должен писать нарушения на языке locale', () => {
+      const errors = validateOutput({ verdict: 'approve', risks: [3] }, verdictSchema, '$', 'en');
+
+      assert.deepStrictEqual(errors, [
+        '$.confidence: required field is missing',
+        '$.risks[0]: expected string, got integer'
+      ]);
+    });
+  });
+
+  describe('parseStructuredOutput', () => {
+    it('должен возвращать ошибку для некорректного JSON', () => {
+      const { data, errors } = parseStructuredOutput('{"verdict": }', verdictSchema);
+
+      assert.strictEqual(data, undefined);
+      assert.match(errors[0], /^Некорректный JSON/);
+      assert.deepStrictEqual(parseStructuredOutput('Просто текст', verdictSchema, 'en').errors, ['No JSON in the answer']);
+    });
+  });
+
+  describe('buildSchemaInstruction', () => {
+    it('должен добавлять схему к промпту', () => {
+      const prompt = buildSchemaInstruction('Оцени задачу', verdictSchema);
+
+      assert.ok(prompt.startsWith('Оцени задачу\n\n## Формат ответа'));
+      assert.ok(prompt.includes('"confidence"'));
+    });
+  });
+});
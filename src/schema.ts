@@ -0,0 +1,137 @@
+/**
+ * @fileoverview Структурированные ответы агентов: промпт, разбор и проверка по схеме
+ * @module opencode-consilium
+ */
+
+import type { Locale, OutputSchema } from './types.js';
+import { getMessages } from './i18n.js';
+
+/**
+ * Добавляет к промпту требование ответить JSON по схеме
+ */
+export function buildSchemaInstruction(prompt: string, schema: OutputSchema, locale?: Locale): string {
+  const { headings, schema: messages } = getMessages(locale).prompts;
+  let instruction = `${prompt}\n\n## ${headings.responseFormat}\n`;
+  instruction += `${messages.jsonOnly}\n`;
+  instruction += '```json\n' + JSON.stringify(schema, null, 2) + '\n```';
+  return instruction;
+}
+
+/**
+ * Извлекает JSON из ответа агента: блок ```json или первый объект/массив в тексте
+ */
+export function extractJson(text: string, locale?: Locale): unknown {
+  const { validation } = getMessages(locale);
+  const fenced = text.match(/```(?:json)?\s*\n([\s\S]*?)```/);
+  if (fenced) {
+    return JSON.parse(fenced[1]);
+  }
+
+  const start = text.search(/[{[]/);
+  if (start === -1) {
+    throw new Error(validation.noJson);
+  }
+
+  const closing = text[start] === '{' ? '}' : ']';
+  const end = text.lastIndexOf(closing);
+  if (end < start) {
+    throw new Error(validation.noJson);
+  }
+
+  return JSON.parse(text.substring(start, end + 1));
+}
+
+/**
+ * Определяет тип значения в терминах JSON Schema
+ */
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+/**
+ * Проверяет значение по схеме и возвращает список ошибок
+ */
+export function validateOutput(
+  value: unknown,
+  schema: OutputSchema,
+  path: string = '$',
+  locale?: Locale
+): string[] {
+  const { validation } = getMessages(locale);
+  const errors: string[] = [];
+  const actual = typeOf(value);
+
+  if (schema.type) {
+    const matches = schema.type === actual || (schema.type === 'number' && actual === 'integer');
+    if (!matches) {
+      return [validation.typeMismatch(path, schema.type, actual)];
+    }
+  }
+
+  if (schema.enum && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(validation.notInEnum(path, JSON.stringify(schema.enum)));
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(validation.belowMinimum(path, schema.minimum));
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(validation.aboveMaximum(path, schema.maximum));
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(validation.tooFewItems(path, schema.minItems));
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(validation.tooManyItems(path, schema.maxItems));
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        errors.push(...validateOutput(item, schema.items!, `${path}[${index}]`, locale));
+      });
+    }
+  }
+
+  if (actual === 'object') {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (!(key in record)) {
+        errors.push(validation.missingField(`${path}.${key}`));
+      }
+    }
+    for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+      if (key in record) {
+        errors.push(...validateOutput(record[key], propertySchema, `${path}.${key}`, locale));
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Разбирает и проверяет ответ агента
+ */
+export function parseStructuredOutput(
+  text: string,
+  schema: OutputSchema,
+  locale?: Locale
+): { data: unknown; errors: string[] } {
+  let data: unknown;
+  try {
+    data = extractJson(text, locale);
+  } catch (error) {
+    const message = error instanceof SyntaxError
+      ? getMessages(locale).validation.invalidJson(error.message)
+      : (error as Error).message;
+    return { data: undefined, errors: [message] };
+  }
+
+  return { data, errors: validateOutput(data, schema, '$', locale) };
+}
@@ -0,0 +1,28 @@
+/**
+ * @fileoverview Сериализация событий консилиума в Server-Sent Events
+ * @module opencode-consilium
+ */
+
+import type { ConsiliumStreamEvent } from './types.js';
+
+/**
+ * Заменяет Error на сериализуемый объект
+ */
+function serializeValue(_key: string, value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message };
+  }
+  return value;
+}
+
+/**
+ * Форматирует событие консилиума как сообщение SSE
+ *
+ * @example
+ * for await (const event of consilium.stream(task)) {
+ *   res.write(formatServerSentEvent(event));
+ * }
+ */
+export function formatServerSentEvent(event: ConsiliumStreamEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event, serializeValue)}\n\n`;
+}
@@ -0,0 +1,177 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import {
+  SYNTHESIS_STRATEGIES,
+  resolveSynthesisStrategy,
+  isSynthesisMode,
+  synthesizeWithFallbacks
+} from './synthesis.js';
+import { createMockBackend } from './backends.js';
+import { DEFAULT_CONFIG } from './defaults.js';
+
+/**
+ * Конфиг на mock-бэкенде с записью промптов
+ */
+function createConfig(responses, chair = {}) {
+  return {
+    ...DEFAULT_CONFIG,
+    chair: { ...DEFAULT_CONFIG.chair, ...chair },
+    backend: createMockBackend({ responses }),
+    retry: { expertRetries: 0, chairRetries: 0, delay: 1, exponentialBackoff: false }
+  };
+}
+
+const experts = ['arch', 'ux', 'ba', 'sec'].map(agent => ({ agent, text: `Мнение ${agent}`, success: true }));
+
+describe('synthesis.ts', () => {
+  describe('concat', () => {
+    it('должен склеивать успешные мнения без вызова агентов', async () => {
+      const result = await SYNTHESIS_STRATEGIES.concat({
+        task: 'Задача',
+        experts: [...experts.slice(0, 2), { agent: 'sec', text: '[Таймаут]', success: false }],
+        config: createConfig({}),
+        listeners: {}
+      });
+
+      assert.strictEqual(result.success, true);
+      assert.strictEqual(result.text, '## ARCH\nМнение arch\n\n## UX\nМнение ux');
+    });
+  });
+
+  describe('map-reduce', () => {
+    it('должен синтезировать группы и объединять черновики', async () => {
+      const prompts = [];
+      const config = createConfig({
+        consilium: (prompt) => {
+          prompts.push(prompt);
+          if (prompt.includes('Черновик 1')) return 'Итог';
+          return prompt.includes('Мнение arch') ? 'Черновик A' : 'Черновик B';
+        }
+      }, { batchSize: 2 });
+
+      const result = await SYNTHESIS_STRATEGIES['map-reduce']({ task: 'Задача', experts, config, listeners: {} });
+
+      assert.strictEqual(result.text, 'Итог');
+      assert.strictEqual(prompts.length, 3);
+      assert.ok(prompts[2].includes('Черновик A') && prompts[2].includes('Черновик B'));
+    });
+
+    it('должен передавать итоги голосования в объединение черновиков', async () => {
+      const prompts = [];
+      const config = createConfig({
+        consilium: (prompt) => {
+          prompts.push(prompt);
+          return prompt.includes('Черновик 1') ? 'Итог' : 'Черновик';
+        }
+      }, { batchSize: 2 });
+
+      await SYNTHESIS_STRATEGIES['map-reduce']({ task: 'Задача', experts, config, listeners: {}, context: 'Итоги голосования: A' });
+
+      assert.strictEqual(prompts.length, 3);
+      assert.ok(prompts.every(prompt => prompt.endsWith('Итоги голосования: A')));
+    });
+  });
+
+  describe('multi-chair', () => {
+    it('должен примирять ответы независимых председателей', async () => {
+      const config = createConfig({
+        left: 'Вариант слева',
+        right: 'Вариант справа',
+        consilium: (prompt) => `Итог: ${prompt.includes('Вариант слева') && prompt.includes('Вариант справа')}`
+      }, { chairs: ['left', 'right'] });
+
+      const result = await SYNTHESIS_STRATEGIES['multi-chair']({ task: 'Задача', experts, config, listeners: {} });
+
+      assert.strictEqual(result.agent, 'consilium');
+      assert.strictEqual(result.text, 'Итог: true');
+    });
+
+    it('должен возвращать единственный успешный черновик без примирения', async () => {
+      const config = createConfig({
+        left: 'Вариант слева',
+        right: { text: '[Таймаут]', success: false, errorCode: 'TIMEOUT' },
+        consilium: () => assert.fail('примирение не нужно')
+      }, { chairs: ['left', 'right'] });
+
+      const result = await SYNTHESIS_STRATEGIES['multi-chair']({ task: 'Задача', experts, config, listeners: {} });
+
+      assert.strictEqual(result.text, 'Вариант слева');
+    });
+  });
+
+  describe('vote', () => {
+    it('должен подводить итог по голосам экспертов', async () => {
+      const ballots = experts.map((e, i) => ({ ...e, data: { choice: i < 3 ? 'A' : 'B', rationale: '' } }));
+
+      const result = await SYNTHESIS_STRATEGIES.vote({ task: 'Задача', experts: ballots, config: createConfig({}), listeners: {} });
+
+      assert.strictEqual(result.agent, 'voting');
+      assert.match(result.text, /\*\*Решение:\*\* A/);
+    });
+  });
+
+  describe('synthesizeWithFallbacks', () => {
+    const failure = { text: '[Таймаут]', success: false, errorCode: 'TIMEOUT' };
+
+    it('должен перебирать запасных председателей по порядку', async () => {
+      const config = createConfig({ consilium: failure, plan: failure, arch: 'Итог от arch' }, { fallbacks: ['plan', 'arch'] });
+
+      const { result, failed } = await synthesizeWithFallbacks(SYNTHESIS_STRATEGIES.chair, { task: 'Задача', experts, config, listeners: {} });
+
+      assert.strictEqual(result.agent, 'arch');
+      assert.strictEqual(result.text, 'Итог от arch');
+      assert.deepStrictEqual(failed.map(r => r.agent), ['consilium', 'plan']);
+    });
+
+    it('должен склеивать мнения без LLM, если все председатели отказали', async () => {
+      const config = createConfig({ consilium: failure, plan: failure }, { fallbacks: ['plan'] });
+
+      const { result, failed } = await synthesizeWithFallbacks(SYNTHESIS_STRATEGIES.chair, { task: 'Задача', experts, config, listeners: {} });
+
+      assert.strictEqual(result.agent, 'fallback');
+      assert.strictEqual(result.success, true);
+      assert.match(result.text, /Синтез недоступен \(consilium, plan\)/);
+      assert.match(result.text, /### ARCH\nМнение arch/);
+      assert.strictEqual(failed.length, 2);
+    });
+
+    it('не должен дублировать председателя в отказавших при отмене', async () => {
+      const controller = new AbortController();
+      const config = createConfig({
+        consilium: failure,
+        plan: () => { controller.abort(); return failure; },
+        arch: 'Итог от arch'
+      }, { fallbacks: ['plan', 'arch'] });
+
+      const { result, failed } = await synthesizeWithFallbacks(SYNTHESIS_STRATEGIES.chair, {
+        task: 'Задача', experts, config, listeners: {}, signal: controller.signal
+      });
+
+      assert.strictEqual(result.agent, 'plan');
+      assert.deepStrictEqual(failed.map(r => r.agent), ['consilium']);
+    });
+
+    it('не должен менять результат без chair.fallbacks', async () => {
+      const config = createConfig({ consilium: failure });
+
+      const { result, failed } = await synthesizeWithFallbacks(SYNTHESIS_STRATEGIES.chair, { task: 'Задача', experts, config, listeners: {} });
+
+      assert.strictEqual(result.success, false);
+      assert.deepStrictEqual(failed, []);
+    });
+  });
+
+  describe('resolveSynthesisStrategy', () => {
+    it('должен возвращать chair по умолчанию и пользовательскую функцию как есть', () => {
+      const custom = async () => ({ agent: 'x', text: '', success: true });
+
+      assert.strictEqual(resolveSynthesisStrategy(), SYNTHESIS_STRATEGIES.chair);
+      assert.strictEqual(resolveSynthesisStrategy(custom), custom);
+      assert.strictEqual(isSynthesisMode('map-reduce'), true);
+    });
+
+    it('должен бросать ошибку для неизвестной стратегии', () => {
+      assert.throws(() => resolveSynthesisStrategy('jury'), /Неизвестная стратегия синтеза: jury/);
+    });
+  });
+});
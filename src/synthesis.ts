@@ -0,0 +1,225 @@
+/**
+ * @fileoverview Стратегии синтеза итогового ответа
+ * @module opencode-consilium
+ */
+
+import type {
+  AgentResult,
+  Locale,
+  SynthesisContext,
+  SynthesisMode,
+  SynthesisStrategy
+} from './types.js';
+import { DEFAULT_MERGE_PROMPT_TEMPLATE } from './defaults.js';
+import { callChair } from './agents.js';
+import { tallyVotes, formatVoteTally, VOTING_AGENT } from './voting.js';
+import { getMessages, resolveLocale } from './i18n.js';
+
+/**
+ * Имя агента в результате склейки без председателя
+ */
+export const CONCAT_AGENT = 'concat';
+
+/**
+ * Имя агента в результате запасной склейки после отказа председателей
+ */
+export const FALLBACK_AGENT = 'fallback';
+
+/**
+ * Размер группы экспертов map-reduce по умолчанию
+ */
+const DEFAULT_BATCH_SIZE = 3;
+
+/**
+ * Разбивает список на группы
+ */
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Объединяет черновики нескольких председателей вызовом основного председателя
+ */
+async function mergeDrafts(drafts: AgentResult[], context: SynthesisContext): Promise<AgentResult> {
+  const { task, config, listeners, signal, context: extraContext } = context;
+
+  const cancelled = drafts.find(d => d.errorCode === 'CANCELLED');
+  if (signal?.aborted && cancelled) {
+    return cancelled;
+  }
+
+  const successful = drafts.filter(d => d.success);
+  if (successful.length === 0) {
+    return drafts[drafts.length - 1];
+  }
+  if (successful.length === 1) {
+    return successful[0];
+  }
+
+  const mergeConfig = {
+    ...config,
+    chair: {
+      ...config.chair,
+      promptTemplate: (task: string, drafts: AgentResult[]) => DEFAULT_MERGE_PROMPT_TEMPLATE(task, drafts, resolveLocale(config)),
+      promptFile: undefined
+    }
+  };
+  // Итоги голосования нужны и при объединении, иначе финальный план их не учитывает
+  return callChair(successful, task, mergeConfig, listeners, signal, extraContext);
+}
+
+/**
+ * Один председатель синтезирует все мнения
+ */
+const chairStrategy: SynthesisStrategy = ({ task, experts, config, listeners, signal, context, projectContext }) =>
+  callChair(experts, task, config, listeners, signal, context, projectContext);
+
+/**
+ * Встроенные стратегии синтеза
+ */
+export const SYNTHESIS_STRATEGIES: Record<SynthesisMode, SynthesisStrategy> = {
+  chair: chairStrategy,
+
+  // Склейка мнений без вызова LLM
+  concat: async ({ experts, config }) => {
+    const answered = experts.filter(e => e.success);
+    const text = answered.map(e => `## ${e.agent.toUpperCase()}\n${e.text}`).join('\n\n');
+
+    return {
+      agent: CONCAT_AGENT,
+      text: answered.length > 0 ? text : getMessages(resolveLocale(config)).output.noExpertAnswers,
+      success: answered.length > 0
+    };
+  },
+
+  // Председатель синтезирует группы экспертов, затем объединяет промежуточные итоги
+  'map-reduce': async (synthesis) => {
+    const { task, experts, config, listeners, signal, context, projectContext } = synthesis;
+    const batchSize = Math.max(1, config.chair.batchSize ?? DEFAULT_BATCH_SIZE);
+
+    if (experts.length <= batchSize) {
+      return chairStrategy(synthesis);
+    }
+
+    const drafts = await Promise.all(chunk(experts, batchSize).map(batch =>
+      callChair(batch, task, config, listeners, signal, context, projectContext)
+    ));
+    return mergeDrafts(drafts, synthesis);
+  },
+
+  // Итог по взвешенному голосованию экспертов без вызова LLM
+  vote: async ({ experts, config, vote }) => {
+    const tally = vote ?? tallyVotes(experts, config.experts);
+    return {
+      agent: VOTING_AGENT,
+      text: formatVoteTally(tally, resolveLocale(config)),
+      success: tally.ballots.length > 0
+    };
+  },
+
+  // Несколько председателей синтезируют независимо, основной председатель примиряет
+  'multi-chair': async (synthesis) => {
+    const { task, experts, config, listeners, signal, context, projectContext } = synthesis;
+    const chairs = config.chair.chairs ?? [config.chair.agent, config.chair.agent];
+
+    const drafts = await Promise.all(chairs.map(agent =>
+      callChair(experts, task, { ...config, chair: { ...config.chair, agent } }, listeners, signal, context, projectContext)
+    ));
+    return mergeDrafts(drafts, synthesis);
+  }
+};
+
+/**
+ * Стратегия синтеза по умолчанию
+ */
+export const DEFAULT_SYNTHESIS_MODE: SynthesisMode = 'chair';
+
+/**
+ * Проверяет, является ли значение встроенной стратегией синтеза
+ */
+export function isSynthesisMode(value: unknown): value is SynthesisMode {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(SYNTHESIS_STRATEGIES, value);
+}
+
+/**
+ * Возвращает стратегию по имени или функции
+ */
+export function resolveSynthesisStrategy(
+  strategy?: SynthesisMode | SynthesisStrategy,
+  locale?: Locale
+): SynthesisStrategy {
+  if (typeof strategy === 'function') {
+    return strategy;
+  }
+
+  if (strategy !== undefined && !isSynthesisMode(strategy)) {
+    throw new Error(getMessages(locale).errors.unknownSynthesis(String(strategy)));
+  }
+
+  return SYNTHESIS_STRATEGIES[strategy ?? DEFAULT_SYNTHESIS_MODE];
+}
+
+/**
+ * Склеивает мнения экспертов в markdown без вызова LLM
+ */
+export function createFallbackSynthesis(experts: AgentResult[], failed: AgentResult[], locale?: Locale): AgentResult {
+  const messages = getMessages(locale).output;
+  const answered = experts.filter(e => e.success);
+  const chairs = failed.map(r => r.agent).join(', ');
+
+  let text = `> ${messages.synthesisUnavailable(chairs || messages.chairFallback)}\n\n`;
+  text += `## ${messages.expertOpinions}\n\n`;
+  for (const expert of answered) {
+    text += `### ${expert.agent.toUpperCase()}\n${expert.text}\n\n`;
+  }
+
+  return {
+    agent: FALLBACK_AGENT,
+    text: answered.length > 0 ? text.trimEnd() : messages.noExpertAnswers,
+    success: answered.length > 0
+  };
+}
+
+/**
+ * Синтезирует ответ, при отказе перебирая chair.fallbacks и затем склейку без LLM
+ *
+ * Без chair.fallbacks поведение не меняется: неудачный синтез возвращается как есть.
+ */
+export async function synthesizeWithFallbacks(
+  strategy: SynthesisStrategy,
+  context: SynthesisContext
+): Promise<{ result: AgentResult; failed: AgentResult[] }> {
+  const { config, signal } = context;
+  const failed: AgentResult[] = [];
+
+  let result = await strategy(context);
+  const fallbacks = config.chair.fallbacks;
+
+  if (result.success || result.errorCode === 'CANCELLED' || !fallbacks) {
+    return { result, failed };
+  }
+
+  for (const agent of fallbacks) {
+    // При отмене текущий результат возвращается как есть и в отказавших не числится
+    if (signal?.aborted) {
+      return { result, failed };
+    }
+    failed.push(result);
+
+    result = await chairStrategy({
+      ...context,
+      config: { ...config, chair: { ...config.chair, agent } }
+    });
+
+    if (result.success || result.errorCode === 'CANCELLED') {
+      return { result, failed };
+    }
+  }
+
+  failed.push(result);
+  return { result: createFallbackSynthesis(context.experts, failed, resolveLocale(context.config)), failed };
+}
@@ -0,0 +1,104 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  renderTemplate,
+  loadPromptFile,
+  parseTemplateVar,
+  truncateText
+} from './template.js';
+
+describe('template.ts', () => {
+  describe('renderTemplate', () => {
+    it('должен подставлять переменные и оставлять неизвестные как есть', () => {
+      const result = renderTemplate('${task} для ${team}: ${missing} и ${a + b}', { task: 'Ревью', team: 'backend' });
+      assert.strictEqual(result, 'Ревью для backend: ${missing} и ${a + b}');
+    });
+
+    it('должен вычислять условия с else, отрицанием и сравнением', () => {
+      const template = '${if context}есть${else}нет${/if}|${if !strict}мягко${/if}|${if lang == en}EN${/if}${if lang != en}RU${/if}';
+      assert.strictEqual(renderTemplate(template, { context: 'код', strict: 'false', lang: 'en' }), 'есть|мягко|EN');
+      assert.strictEqual(renderTemplate(template, { context: '', strict: true, lang: 'ru' }), 'нет||RU');
+    });
+
+    it('должен поддерживать вложенные условия и фрагменты', () => {
+      const partials = { header: '# ${title}', footer: '${if sign}— ${sign}${/if}' };
+      const result = renderTemplate('${> header}\n${if body}${if title}${body}${/if}${/if}\n${> footer}', {
+        title: 'Отчёт',
+        body: 'Текст',
+        sign: 'Совет'
+      }, partials);
+      assert.strictEqual(result, '# Отчёт\nТекст\n— Совет');
+    });
+
+    it('должен повторять блок ${each} для элементов списка', () => {
+      const vars = {
+        team: 'core',
+        experts: [{ agent: 'arch' }, { agent: 'sec' }],
+        tags: ['a', 'b'],
+        empty: []
+      };
+
+      assert.strictEqual(
+        renderTemplate('${each experts}${index}. ${agent}@${team}${if !last}; ${/if}${/each}', vars),
+        '1. arch@core; 2. sec@core'
+      );
+      assert.strictEqual(renderTemplate('${each tags}[${item}]${/each} ${tags}', vars), '[a][b] 2');
+      assert.strictEqual(renderTemplate('${each empty}x${else}нет${/each}${if empty}!${/if}', vars), 'нет');
+      assert.throws(() => renderTemplate('${each tags}${/if}', vars), /без \$\{if\}/);
+    });
+
+    it('не должен разбирать значения переменных повторно', () => {
+      const result = renderTemplate('Задача: ${task}', { task: '${if x}${secret}${/if}', secret: 'утечка' });
+      assert.strictEqual(result, 'Задача: ${if x}${secret}${/if}');
+    });
+
+    it('должен сообщать об ошибках шаблона', () => {
+      assert.throws(() => renderTemplate('${if a}без конца', {}), /не закрыт/);
+      assert.throws(() => renderTemplate('лишний ${/if}', {}), /без \$\{if\}/);
+      assert.throws(() => renderTemplate('${> nope}', {}), /Неизвестный фрагмент/);
+      assert.throws(() => renderTemplate('${> loop}', {}, { loop: '${> loop}' }), /вложенность/);
+      assert.throws(() => renderTemplate('${if a}no end', {}, {}, 'en'), /Template error: unclosed \$\{if a\}/);
+    });
+  });
+
+  describe('truncateText', () => {
+    it('должен обрезать по абзацу, затем по предложению и слову', () => {
+      const text = 'Первый абзац.\n\nВторой абзац. Ещё одно предложение.';
+
+      assert.strictEqual(truncateText(text, 100), text);
+      assert.strictEqual(truncateText(text, 20), 'Первый абзац.\n[...обрезано: 13 из 50 символов]');
+      assert.strictEqual(truncateText('Раз. Два три четыре', 14), 'Раз. Два три\n[...обрезано: 12 из 19 символов]');
+      assert.strictEqual(truncateText('абвгдеёжзий', 5), 'абвгд\n[...обрезано: 5 из 11 символов]');
+    });
+  });
+
+  describe('loadPromptFile', () => {
+    let dir;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'consilium-template-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('должен читать файл относительно базовой директории', () => {
+      writeFileSync(join(dir, 'arch.md'), 'Архитектура: ${task}');
+      assert.strictEqual(loadPromptFile('arch.md', dir), 'Архитектура: ${task}');
+      assert.throws(() => loadPromptFile('missing.md', dir), /Файл промпта не найден/);
+    });
+  });
+
+  describe('parseTemplateVar', () => {
+    it('должен разбирать имя=значение', () => {
+      assert.deepStrictEqual(parseTemplateVar('team=backend'), ['team', 'backend']);
+      assert.deepStrictEqual(parseTemplateVar('query=a=b'), ['query', 'a=b']);
+      assert.throws(() => parseTemplateVar('=x'), /Некорректная переменная/);
+      assert.throws(() => parseTemplateVar('no-value'), /Некорректная переменная/);
+    });
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * @fileoverview Шаблоны промптов: переменные, условия, фрагменты и файлы промптов
+ * @module opencode-consilium
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { resolve } from 'path';
+import type { Locale, TemplateValue, TemplateVars } from './types.js';
+import type { Messages } from './i18n.js';
+import { getMessages } from './i18n.js';
+
+/**
+ * Максимальная глубина вложенности фрагментов (защита от циклов)
+ */
+const MAX_PARTIAL_DEPTH = 10;
+
+/**
+ * Управляющие конструкции и переменные шаблона
+ *
+ * Всё, что не подходит под шаблон (например `${a + b}`), остаётся текстом.
+ */
+const TOKEN_PATTERN = /\$\{\s*(if\s+[^{}]+?|each\s+[A-Za-z_]\w*|else|\/if|\/each|>\s*[\w./-]+|[A-Za-z_]\w*)\s*\}/g;
+
+/**
+ * Блок шаблона: условие или цикл по списку
+ */
+interface BlockNode {
+  type: 'if' | 'each';
+  /** Условие или имя списка */
+  expression: string;
+  body: TemplateNode[];
+  else: TemplateNode[];
+}
+
+/**
+ * Узел разобранного шаблона
+ */
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'var'; name: string; raw: string }
+  | { type: 'partial'; name: string }
+  | BlockNode;
+
+/**
+ * Разбирает шаблон в дерево узлов
+ */
+function parseTemplate(template: string, errors: Messages['errors']): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: Array<{ node: BlockNode; branch: 'body' | 'else' }> = [];
+  const current = () => {
+    const frame = stack[stack.length - 1];
+    return frame ? frame.node[frame.branch] : root;
+  };
+
+  let last = 0;
+  for (const match of template.matchAll(TOKEN_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > last) {
+      current().push({ type: 'text', value: template.substring(last, index) });
+    }
+    last = index + match[0].length;
+
+    const token = match[1];
+    const block = token.match(/^(if|each)\s+(.+)$/);
+    if (block) {
+      const node: BlockNode = {
+        type: block[1] as BlockNode['type'],
+        expression: block[2].trim(),
+        body: [],
+        else: []
+      };
+      current().push(node);
+      stack.push({ node, branch: 'body' });
+    } else if (token === 'else') {
+      const frame = stack[stack.length - 1];
+      if (!frame || frame.branch === 'else') {
+        throw new Error(errors.templateElse);
+      }
+      frame.branch = 'else';
+    } else if (token === '/if' || token === '/each') {
+      const frame = stack.pop();
+      if (!frame || `/${frame.node.type}` !== token) {
+        throw new Error(errors.templateUnmatched(token, token.substring(1)));
+      }
+    } else if (token.startsWith('>')) {
+      current().push({ type: 'partial', name: token.substring(1).trim() });
+    } else {
+      current().push({ type: 'var', name: token, raw: match[0] });
+    }
+  }
+
+  if (stack.length > 0) {
+    const { node } = stack[stack.length - 1];
+    throw new Error(errors.templateUnclosed(`${node.type} ${node.expression}`));
+  }
+
+  if (last < template.length) {
+    root.push({ type: 'text', value: template.substring(last) });
+  }
+  return root;
+}
+
+/**
+ * Текстовое значение переменной; список подставляется числом элементов
+ */
+function toText(value: TemplateValue): string {
+  return Array.isArray(value) ? String(value.length) : String(value ?? '');
+}
+
+/**
+ * Истинность значения: пустая строка, 'false', '0', false, 0 и пустой список — ложь
+ */
+function isTruthy(value: TemplateValue): boolean {
+  if (value === undefined || value === false || value === 0) return false;
+  const text = toText(value).trim();
+  return text !== '' && text !== 'false' && text !== '0';
+}
+
+/**
+ * Вычисляет условие: `name`, `!name`, `name == value`, `name != value`
+ */
+function evaluateCondition(condition: string, vars: TemplateVars, errors: Messages['errors']): boolean {
+  const comparison = condition.match(/^([A-Za-z_]\w*)\s*(==|!=)\s*(.+)$/);
+  if (comparison) {
+    const [, name, operator, rawExpected] = comparison;
+    const expected = rawExpected.trim().replace(/^(["'])(.*)\1$/, '$2');
+    const equal = toText(vars[name]) === expected;
+    return operator === '==' ? equal : !equal;
+  }
+
+  const negated = condition.startsWith('!');
+  const name = negated ? condition.substring(1).trim() : condition;
+  if (!/^[A-Za-z_]\w*$/.test(name)) {
+    throw new Error(errors.templateCondition(condition));
+  }
+  return negated ? !isTruthy(vars[name]) : isTruthy(vars[name]);
+}
+
+/**
+ * Переменные одной итерации `${each}`: поля элемента (или `${item}`), `${index}` с 1, `${first}`, `${last}`
+ */
+function iterationVars(vars: TemplateVars, item: string | TemplateVars, index: number, count: number): TemplateVars {
+  return {
+    ...vars,
+    ...(typeof item === 'object' ? item : { item }),
+    index: index + 1,
+    first: index === 0,
+    last: index === count - 1
+  };
+}
+
+/**
+ * Отрисовывает узлы шаблона
+ */
+function renderNodes(
+  nodes: TemplateNode[],
+  vars: TemplateVars,
+  partials: Record<string, string>,
+  depth: number,
+  errors: Messages['errors']
+): string {
+  let output = '';
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        output += node.value;
+        break;
+      case 'var':
+        // Неизвестные переменные оставляем как есть: ${...} может быть частью кода в промпте
+        output += Object.prototype.hasOwnProperty.call(vars, node.name) && vars[node.name] !== undefined
+          ? toText(vars[node.name])
+          : node.raw;
+        break;
+      case 'partial': {
+        const partial = partials[node.name];
+        if (partial === undefined) {
+          throw new Error(errors.unknownPartial(node.name));
+        }
+        if (depth >= MAX_PARTIAL_DEPTH) {
+          throw new Error(errors.partialDepth(node.name));
+        }
+        output += renderNodes(parseTemplate(partial, errors), vars, partials, depth + 1, errors);
+        break;
+      }
+      case 'if':
+        output += renderNodes(evaluateCondition(node.expression, vars, errors) ? node.body : node.else, vars, partials, depth, errors);
+        break;
+      case 'each': {
+        const list = vars[node.expression];
+        if (!Array.isArray(list) || list.length === 0) {
+          output += renderNodes(node.else, vars, partials, depth, errors);
+          break;
+        }
+        list.forEach((item, index) => {
+          output += renderNodes(node.body, iterationVars(vars, item, index, list.length), partials, depth, errors);
+        });
+        break;
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Отрисовывает шаблон промпта
+ *
+ * Поддерживает `${name}`, `${if name}...${else}...${/if}` (также `!name`, `name == value`,
+ * `name != value`), циклы `${each list}...${else}...${/each}` и фрагменты `${> name}`. Значения переменных не разбираются повторно,
+ * поэтому `${...}` внутри задачи или контекста остаётся текстом.
+ */
+export function renderTemplate(
+  template: string,
+  vars: TemplateVars,
+  partials: Record<string, string> = {},
+  locale?: Locale
+): string {
+  const { errors } = getMessages(locale);
+  return renderNodes(parseTemplate(template, errors), vars, partials, 0, errors);
+}
+
+/**
+ * Читает файл промпта
+ */
+export function loadPromptFile(path: string, baseDir: string = process.cwd(), locale?: Locale): string {
+  const fullPath = resolve(baseDir, path);
+  if (!existsSync(fullPath)) {
+    throw new Error(getMessages(locale).errors.promptFileNotFound(path));
+  }
+  return readFileSync(fullPath, 'utf-8');
+}
+
+/**
+ * Разбирает переменные вида key=value (например из --var)
+ */
+export function parseTemplateVar(assignment: string, locale?: Locale): [string, string] {
+  const separator = assignment.indexOf('=');
+  const name = separator > 0 ? assignment.substring(0, separator).trim() : '';
+  if (!/^[A-Za-z_]\w*$/.test(name)) {
+    throw new Error(getMessages(locale).errors.invalidVar(assignment));
+  }
+  return [name, assignment.substring(separator + 1)];
+}
+
+/**
+ * Границы обрезки по убыванию предпочтения: абзац, строка, предложение, слово
+ */
+const TRUNCATION_BOUNDARIES = [['\n\n'], ['\n'], ['. ', '! ', '? ', '… '], [' ']];
+
+/**
+ * Обрезает текст до maxLength символов по границе абзаца, строки, предложения или слова
+ *
+ * Граница ищется во второй половине допустимого текста, иначе режем по лимиту.
+ * К обрезанному тексту добавляется отметка с исходной длиной на языке locale.
+ */
+export function truncateText(text: string, maxLength: number, locale?: Locale): string {
+  if (text.length <= maxLength) {
+    return text;
+  }
+
+  const head = text.substring(0, maxLength);
+  let cut = maxLength;
+  for (const separators of TRUNCATION_BOUNDARIES) {
+    // Знак препинания остаётся в тексте, пробелы и переводы строк — нет
+    const boundary = Math.max(...separators.map(separator => {
+      const index = head.lastIndexOf(separator);
+      return index < 0 ? -1 : index + separator.trimEnd().length;
+    }));
+    if (boundary >= maxLength / 2) {
+      cut = boundary;
+      break;
+    }
+  }
+
+  return `${text.substring(0, cut).trimEnd()}\n${getMessages(locale).prompts.truncated(cut, text.length)}`;
+}
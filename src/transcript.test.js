@@ -0,0 +1,54 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { parseTranscriptEvent, parseTranscript, extractSessionId } from './transcript.js';
+
+const output = [
+  '{"type":"step_start","timestamp":1,"sessionID":"ses_1","part":{"type":"step-start"}}',
+  '{"type":"reasoning","timestamp":2,"sessionID":"ses_1","part":{"text":"Думаю"}}',
+  '{"type":"tool_use","timestamp":3,"sessionID":"ses_1","part":{"tool":"bash","callID":"c1","state":{"status":"completed","input":{"command":"ls"},"output":"src"}}}',
+  'не JSON',
+  '{"type":"text","timestamp":4,"sessionID":"ses_1","part":{"text":"Ответ"}}',
+  '{"type":"error","timestamp":5,"sessionID":"ses_1","error":{"name":"APIError","data":{"message":"Rate limit"}}}'
+].join('\n');
+
+describe('transcript.ts', () => {
+  describe('parseTranscript', () => {
+    it('должен сохранять все события, а не только текст', () => {
+      const events = parseTranscript(output);
+
+      assert.deepStrictEqual(events.map(e => e.type), ['step_start', 'reasoning', 'tool', 'text', 'error']);
+      assert.strictEqual(events[1].text, 'Думаю');
+      assert.deepStrictEqual(events[2].tool, {
+        name: 'bash',
+        callId: 'c1',
+        status: 'completed',
+        input: { command: 'ls' },
+        output: 'src'
+      });
+      assert.strictEqual(events[3].timestamp, 4);
+      assert.strictEqual(events[4].error, 'Rate limit');
+      assert.strictEqual(events[2].raw.type, 'tool_use');
+    });
+  });
+
+  describe('parseTranscriptEvent', () => {
+    it('должен помечать неизвестные события как other', () => {
+      const event = parseTranscriptEvent('{"type":"patch","part":{"files":["a.ts"]}}');
+
+      assert.strictEqual(event.type, 'other');
+      assert.strictEqual(event.event, 'patch');
+    });
+
+    it('должен возвращать null для строк без типа события', () => {
+      assert.strictEqual(parseTranscriptEvent('{"text":"x"}'), null);
+      assert.strictEqual(parseTranscriptEvent(''), null);
+    });
+  });
+
+  describe('extractSessionId', () => {
+    it('должен находить ID сессии OpenCode', () => {
+      assert.strictEqual(extractSessionId(output), 'ses_1');
+      assert.strictEqual(extractSessionId('{"type":"text","part":{"text":"x"}}'), undefined);
+    });
+  });
+});
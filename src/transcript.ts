@@ -0,0 +1,151 @@
+/**
+ * @fileoverview Журнал событий OpenCode: текст, рассуждения, инструменты, ошибки
+ * @module opencode-consilium
+ */
+
+import type { Locale, TranscriptEvent, TranscriptEventType } from './types.js';
+import { getMessages } from './i18n.js';
+
+/**
+ * Соответствие типов событий OpenCode видам событий журнала
+ */
+const EVENT_TYPES: Record<string, TranscriptEventType> = {
+  text: 'text',
+  reasoning: 'reasoning',
+  tool_use: 'tool',
+  tool: 'tool',
+  step_start: 'step_start',
+  step_finish: 'step_finish',
+  error: 'error'
+};
+
+/**
+ * Поля части события OpenCode, используемые журналом
+ */
+interface EventPart {
+  text?: unknown;
+  tool?: unknown;
+  callID?: unknown;
+  sessionID?: unknown;
+  error?: unknown;
+  state?: {
+    status?: unknown;
+    input?: unknown;
+    output?: unknown;
+    error?: unknown;
+  };
+}
+
+/**
+ * Приводит ошибку события к строке
+ */
+function describeError(error: unknown): string | undefined {
+  if (error === undefined || error === null) return undefined;
+  if (typeof error === 'string') return error;
+
+  const record = error as { message?: unknown; name?: unknown; data?: { message?: unknown } };
+  const message = record.data?.message ?? record.message ?? record.name;
+  return typeof message === 'string' ? message : JSON.stringify(error);
+}
+
+/**
+ * Разбирает одну строку JSON-потока OpenCode в событие журнала
+ */
+export function parseTranscriptEvent(line: string, locale?: Locale): TranscriptEvent | null {
+  const trimmed = line.trim();
+  if (!trimmed) return null;
+
+  let raw: Record<string, unknown>;
+  try {
+    raw = JSON.parse(trimmed);
+  } catch {
+    return null;
+  }
+  if (typeof raw !== 'object' || raw === null || typeof raw.type !== 'string') {
+    return null;
+  }
+
+  const part = (raw.part ?? {}) as EventPart;
+  const event: TranscriptEvent = {
+    type: EVENT_TYPES[raw.type] ?? 'other',
+    event: raw.type,
+    raw
+  };
+
+  if (typeof raw.timestamp === 'number') {
+    event.timestamp = raw.timestamp;
+  }
+  const sessionId = raw.sessionID ?? part.sessionID;
+  if (typeof sessionId === 'string') {
+    event.sessionId = sessionId;
+  }
+
+  switch (event.type) {
+    case 'text':
+    case 'reasoning':
+      if (typeof part.text === 'string') {
+        event.text = part.text;
+      }
+      break;
+    case 'tool':
+      event.tool = {
+        name: typeof part.tool === 'string' ? part.tool : 'unknown',
+        callId: typeof part.callID === 'string' ? part.callID : undefined,
+        status: typeof part.state?.status === 'string' ? part.state.status : undefined,
+        input: part.state?.input,
+        output: part.state?.output
+      };
+      if (part.state?.status === 'error') {
+        event.error = describeError(part.state.error);
+      }
+      break;
+    case 'error':
+      event.error = describeError(raw.error ?? part.error) ?? getMessages(locale).errors.unknownError;
+      break;
+  }
+
+  return event;
+}
+
+/**
+ * Разбирает весь JSON-вывод OpenCode CLI, пропуская не-JSON строки
+ */
+export function parseTranscript(output: string, locale?: Locale): TranscriptEvent[] {
+  const events: TranscriptEvent[] = [];
+  for (const line of output.split('\n')) {
+    const event = parseTranscriptEvent(line, locale);
+    if (event) {
+      events.push(event);
+    }
+  }
+  return events;
+}
+
+/**
+ * Возвращает ошибки из событий error JSON-вывода OpenCode
+ *
+ * Ошибка отдаётся целиком (с кодом статуса и подсказками), чтобы её можно было классифицировать.
+ */
+export function extractErrorEvents(output: string): string[] {
+  return parseTranscript(output)
+    .filter(event => event.type === 'error')
+    .map(event => {
+      const error = event.raw.error ?? (event.raw.part as EventPart | undefined)?.error;
+      return typeof error === 'string' ? error : JSON.stringify(error ?? event.error);
+    });
+}
+
+/**
+ * Возвращает ID сессии OpenCode из вывода CLI
+ */
+export function extractSessionId(output: string): string | undefined {
+  for (const line of output.split('\n')) {
+    // Быстрая проверка, чтобы не разбирать каждую строку
+    if (!line.includes('sessionID')) continue;
+    const sessionId = parseTranscriptEvent(line)?.sessionId;
+    if (sessionId) {
+      return sessionId;
+    }
+  }
+  return undefined;
+}
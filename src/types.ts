@@ -16,9 +16,191 @@ export interface AgentResult {
   /** Время выполнения в мс */
   duration?: number;
   /** Код ошибки (если есть) */
-  errorCode?: 'TIMEOUT' | 'EMPTY_RESPONSE' | 'SPAWN_ERROR' | 'PARSE_ERROR';
+  errorCode?: AgentErrorCode;
+  /** Подсказка провайдера, через сколько мс повторить запрос */
+  retryAfter?: number;
   /** Попытка выполнения */
   attempt?: number;
+  /** Раунд обсуждения (начиная с 1) */
+  round?: number;
+  /** Структурированный ответ, прошедший проверку outputSchema */
+  data?: unknown;
+  /** Время ожидания в очереди (мс), не входит в duration */
+  queueTime?: number;
+  /** Расход токенов и стоимость (сумма по всем попыткам) */
+  usage?: TokenUsage;
+  /** ID сессии OpenCode последней попытки (для opencode --session) */
+  sessionId?: string;
+  /** Журнал событий OpenCode по всем попыткам (при config.transcript) */
+  transcript?: TranscriptEvent[];
+  /** Ответ взят из кэша без вызова агента */
+  cached?: boolean;
+  /** Время сохранения ответа в кэш (мс с эпохи) */
+  cachedAt?: number;
+}
+
+/**
+ * Вид события журнала OpenCode
+ */
+export type TranscriptEventType =
+  | 'text'
+  | 'reasoning'
+  | 'tool'
+  | 'step_start'
+  | 'step_finish'
+  | 'error'
+  | 'other';
+
+/**
+ * Вызов инструмента агентом
+ */
+export interface TranscriptToolCall {
+  /** Имя инструмента */
+  name: string;
+  /** ID вызова */
+  callId?: string;
+  /** Статус: pending, running, completed, error */
+  status?: string;
+  /** Аргументы вызова */
+  input?: unknown;
+  /** Результат вызова */
+  output?: unknown;
+}
+
+/**
+ * Событие из JSON-потока OpenCode
+ */
+export interface TranscriptEvent {
+  /** Вид события */
+  type: TranscriptEventType;
+  /** Исходный тип события OpenCode */
+  event: string;
+  /** Попытка, в которой получено событие */
+  attempt?: number;
+  /** Время события (мс с эпохи) */
+  timestamp?: number;
+  /** ID сессии OpenCode */
+  sessionId?: string;
+  /** Текст ответа или рассуждений */
+  text?: string;
+  /** Вызов инструмента */
+  tool?: TranscriptToolCall;
+  /** Сообщение об ошибке */
+  error?: string;
+  /** Событие без изменений */
+  raw: Record<string, unknown>;
+}
+
+/**
+ * Расход токенов и стоимость
+ */
+export interface TokenUsage {
+  /** Входные токены */
+  input: number;
+  /** Выходные токены (включая reasoning) */
+  output: number;
+  /** Токены, прочитанные из кэша провайдера */
+  cacheRead: number;
+  /** Токены, записанные в кэш провайдера */
+  cacheWrite: number;
+  /** Стоимость в USD */
+  cost: number;
+  /** Модель (provider/model), если известна */
+  model?: string;
+}
+
+/**
+ * Цена модели в USD за миллион токенов
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  cacheRead?: number;
+  cacheWrite?: number;
+}
+
+/**
+ * Дисковый кэш ответов агентов
+ */
+export interface CacheConfig {
+  /** Директория кэша (по умолчанию .consilium/cache) */
+  dir?: string;
+  /** Время жизни записи (мс, по умолчанию сутки) */
+  ttl?: number;
+  /** Агенты, которые опрашиваются заново; их ответы перезаписывают кэш */
+  refresh?: string[];
+}
+
+/**
+ * Запись дискового кэша
+ */
+export interface CacheEntry {
+  /** Ключ записи (sha256) */
+  key: string;
+  /** Имя агента */
+  agent: string;
+  /** Модель, если задана */
+  model?: string;
+  /** Время сохранения (мс с эпохи) */
+  createdAt: number;
+  /** Сохранённый ответ */
+  result: AgentResult;
+}
+
+/**
+ * Бюджет запуска: при превышении запуск отменяется
+ */
+export interface BudgetConfig {
+  /** Максимальная стоимость в USD */
+  maxCost?: number;
+  /** Максимум токенов (input + output) */
+  maxTokens?: number;
+}
+
+/**
+ * Классифицированные ошибки агента
+ */
+export type AgentErrorCode =
+  | 'TIMEOUT'
+  | 'EMPTY_RESPONSE'
+  | 'SPAWN_ERROR'
+  | 'PARSE_ERROR'
+  | 'CANCELLED'
+  | 'RATE_LIMIT'
+  | 'AUTH_ERROR'
+  | 'MODEL_NOT_FOUND'
+  | 'AGENT_NOT_FOUND'
+  | 'NETWORK_ERROR';
+
+/**
+ * JSON Schema для структурированного ответа агента
+ *
+ * Поддерживается подмножество: type, properties, required, items, enum,
+ * minimum, maximum, minItems, maxItems, description.
+ */
+export interface OutputSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+  description?: string;
+  properties?: Record<string, OutputSchema>;
+  required?: string[];
+  items?: OutputSchema;
+  enum?: unknown[];
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+}
+
+/**
+ * Сведения о незавершённом консилиуме
+ */
+export interface PartialResultInfo {
+  /** Причина: отмена запуска, ошибка председателя или не набранный кворум */
+  reason: 'cancelled' | 'chair_failed' | 'quorum_failed';
+  /** Эксперты без успешного ответа (будут опрошены при --resume) */
+  pendingExperts: string[];
+  /** Описание причины */
+  message?: string;
 }
 
 /**
@@ -27,6 +209,8 @@ export interface AgentResult {
 export interface ConsiliumResult {
   /** Итоговый текст председателя */
   text: string;
+  /** Исходная задача */
+  task?: string;
   /** Результаты всех экспертов */
   experts: AgentResult[];
   /** Результат председателя */
@@ -37,26 +221,173 @@ export interface ConsiliumResult {
   parallelTime: number;
   /** Успешность всего консилиума */
   success: boolean;
+  /** Заполняется, если консилиум не завершён */
+  partial?: PartialResultInfo;
+  /** Итоги голосования (в режиме voting) */
+  vote?: VoteTally;
+  /** Неудачные попытки синтеза до председателя, давшего ответ */
+  chairFallbacks?: AgentResult[];
+  /** Суммарный расход токенов и стоимость запуска */
+  usage?: TokenUsage;
+  /** Ответы экспертов по раундам (при deliberation.rounds > 1) */
+  rounds?: AgentResult[][];
   /** Метаданные */
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * Режим вызова агента OpenCode
+ * - `agent` — primary-агент через `--agent`
+ * - `subagent` — subagent через упоминание `@agent` в промпте
+ * - `default` — агент по умолчанию из opencode.json
+ */
+export type InvocationMode = 'agent' | 'subagent' | 'default';
+
+/**
+ * Цель вызова агента
+ */
+export interface InvocationTarget {
+  /** Имя агента */
+  agent: string;
+  /** Сформированный промпт */
+  prompt: string;
+  /** Переопределение модели (provider/model) */
+  model?: string;
+}
+
+/**
+ * Стратегия вызова: возвращает аргументы `opencode run` после служебных флагов
+ */
+export type InvocationStrategy = (target: InvocationTarget) => string[];
+
+/**
+ * Фрагмент потокового ответа агента
+ */
+export interface AgentChunk {
+  /** Имя агента */
+  agent: string;
+  /** Новый фрагмент текста */
+  text: string;
+  /** Попытка выполнения (при повторе текст начинается заново) */
+  attempt: number;
+}
+
+/**
+ * Слушатели событий агентов внутри одного этапа консилиума
+ */
+export interface AgentListeners {
+  /** Агент запущен */
+  onStart?: (agent: string) => void;
+  /** Получен фрагмент ответа */
+  onChunk?: (chunk: AgentChunk) => void;
+  /** Агент завершил работу */
+  onEnd?: (result: AgentResult) => void;
+}
+
+/**
+ * Параметры одного вызова агента через бэкенд
+ */
+export interface AgentInvokeOptions {
+  /** Таймаут вызова (мс) */
+  timeout: number;
+  /** Номер попытки */
+  attempt: number;
+  /** Вызов председателя */
+  isChair: boolean;
+  /** Режим вызова */
+  invocation?: InvocationMode | InvocationStrategy;
+  /** Переопределение модели */
+  model?: string;
+  /** Рабочая директория */
+  cwd?: string;
+  /** Дополнительные аргументы CLI */
+  args?: string[];
+  /** Дополнительные переменные окружения */
+  env?: Record<string, string>;
+  /** Вызывается для каждого нового фрагмента текста */
+  onChunk?: (text: string) => void;
+  /** Сигнал отмены вызова */
+  signal?: AbortSignal;
+  /** Сохранить журнал событий в результате */
+  transcript?: boolean;
+  /** Язык текстов-заглушек результата (таймаут, отмена) */
+  locale?: Locale;
+}
+
+/**
+ * Бэкенд вызова агентов
+ */
+export interface AgentBackend {
+  /** Имя бэкенда */
+  name: string;
+  /** Выполняет один вызов агента */
+  invoke(agent: string, prompt: string, options: AgentInvokeOptions): Promise<AgentResult>;
+  /** Проверяет доступность бэкенда */
+  isAvailable?(): Promise<boolean>;
+}
+
+/**
+ * Ответ mock-бэкенда: частичный результат и задержка
+ */
+export type MockReply = Partial<AgentResult> & {
+  /** Задержка ответа (мс) */
+  delay?: number;
+};
+
+/**
+ * Сценарий ответа mock-бэкенда
+ */
+export type MockResponse =
+  | string
+  | MockReply
+  | ((prompt: string, options: AgentInvokeOptions) => string | MockReply | Promise<string | MockReply>);
+
+/**
+ * Настройки mock-бэкенда
+ */
+export interface MockBackendOptions {
+  /** Ответы по имени агента (массив — по одному на вызов) */
+  responses?: Record<string, MockResponse | MockResponse[]>;
+  /** Путь к JSON-фикстуре с полем responses */
+  fixture?: string;
+  /** Задержка ответа по умолчанию (мс) */
+  delay?: number;
+}
+
 /**
  * Конфигурация эксперта
  */
 export interface ExpertConfig {
   /** Имя эксперта */
   name: string;
-  /** Промпт для эксперта (может быть строкой или функцией) */
-  prompt?: string | ((task: string) => string);
+  /** Промпт для эксперта: шаблон (${task}, ${expert}, ${context}, ${round}, vars) или функция */
+  prompt?: string | ((task: string, context?: string) => string);
+  /** Файл с шаблоном промпта (относительно файла конфигурации) */
+  promptFile?: string;
+  /** Переменные шаблона эксперта, дополняют и переопределяют общие vars */
+  vars?: Record<string, string>;
   /** Таймаут для эксперта (переопределяет глобальный) */
   timeout?: number;
   /** Количество повторных попыток */
   retries?: number;
-  /** Приоритет (для будущей сортировки) */
+  /** Приоритет (1 — высший), без weight определяет вес голоса */
   priority?: number;
+  /** Вес голоса в режиме голосования */
+  weight?: number;
   /** Включён/выключен */
   enabled?: boolean;
+  /** Режим вызова (переопределяет глобальный) */
+  invocation?: InvocationMode | InvocationStrategy;
+  /** Модель (provider/model), переопределяет модель агента */
+  model?: string;
+  /** Рабочая директория (относительно cwd консилиума) */
+  cwd?: string;
+  /** Дополнительные аргументы opencode CLI для эксперта */
+  args?: string[];
+  /** Дополнительные переменные окружения для эксперта */
+  env?: Record<string, string>;
+  /** Схема структурированного ответа (результат в AgentResult.data) */
+  outputSchema?: OutputSchema;
 }
 
 /**
@@ -67,10 +398,191 @@ export interface ChairConfig {
   agent: string;
   /** Таймаут для председателя */
   timeout?: number;
-  /** Кастомный промпт (функция принимает мнения экспертов) */
-  promptTemplate?: (task: string, experts: AgentResult[]) => string;
+  /** Промпт председателя: шаблон (${task}, ${opinions}, ${each answers}, ${missing}, ${each sections}, ${context}, vars) или функция */
+  promptTemplate?: string | ((task: string, experts: AgentResult[]) => string);
+  /** Файл с шаблоном промпта председателя (относительно файла конфигурации) */
+  promptFile?: string;
   /** Максимальная длина ответа эксперта для включения в промпт */
   maxExpertTextLength?: number;
+  /** Обязательные разделы ответа председателя (по умолчанию резюме, приоритеты, риск, трудозатраты) */
+  sections?: string[];
+  /** Режим вызова (переопределяет глобальный) */
+  invocation?: InvocationMode | InvocationStrategy;
+  /** Модель (provider/model), переопределяет модель агента */
+  model?: string;
+  /** Схема структурированного ответа (результат в AgentResult.data) */
+  outputSchema?: OutputSchema;
+  /** Стратегия синтеза (по умолчанию chair) */
+  strategy?: SynthesisMode | SynthesisStrategy;
+  /** Независимые председатели для multi-chair (по умолчанию два вызова agent) */
+  chairs?: string[];
+  /** Размер группы экспертов для map-reduce */
+  batchSize?: number;
+  /** Запасные председатели по порядку; затем склейка мнений без LLM */
+  fallbacks?: string[];
+}
+
+/**
+ * Встроенные стратегии синтеза
+ */
+export type SynthesisMode = 'chair' | 'concat' | 'map-reduce' | 'vote' | 'multi-chair';
+
+/**
+ * Данные для синтеза итогового ответа
+ */
+export interface SynthesisContext {
+  /** Исходная задача */
+  task: string;
+  /** Итоговые ответы экспертов */
+  experts: AgentResult[];
+  /** Конфигурация консилиума */
+  config: ConsiliumConfig;
+  /** Слушатели вызовов председателя */
+  listeners: AgentListeners;
+  /** Сигнал отмены запуска */
+  signal?: AbortSignal;
+  /** Итоги голосования, если эксперты голосовали */
+  vote?: VoteTally;
+  /** Дополнительный контекст для промпта председателя */
+  context?: string;
+  /** Контекст проекта для ${context} в шаблоне председателя */
+  projectContext?: string;
+}
+
+/**
+ * Язык промптов и вывода
+ */
+export type Locale = 'ru' | 'en' | 'zh';
+
+/**
+ * Встроенная панель экспертов
+ */
+export type PanelName = 'code-review' | 'product-discovery' | 'incident-postmortem';
+
+/**
+ * Значение переменной шаблона: скаляр или список для ${each}
+ */
+export type TemplateValue = string | number | boolean | undefined | Array<string | TemplateVars>;
+
+/**
+ * Значения переменных шаблона промпта
+ */
+export interface TemplateVars {
+  [name: string]: TemplateValue;
+}
+
+/**
+ * Стратегия синтеза: превращает ответы экспертов в итоговый ответ
+ */
+export type SynthesisStrategy = (context: SynthesisContext) => Promise<AgentResult>;
+
+/**
+ * Политика кворума перед синтезом
+ */
+export interface QuorumConfig {
+  /** Минимум успешных экспертов: число (>= 1) или доля от опрошенных (< 1) */
+  min?: number;
+  /** Эксперты, без ответа которых синтез не запускается */
+  required?: string[];
+  /** При недоборе: error — завершить с ошибкой, proceed — синтезировать по успешным */
+  onFailure?: 'error' | 'proceed';
+}
+
+/**
+ * Настройки режима голосования
+ */
+export interface VotingConfig {
+  /** Варианты выбора (если не заданы, эксперты называют вариант сами) */
+  options?: string[];
+  /** Передать итоги председателю как контекст вместо итогового текста */
+  useChair?: boolean;
+}
+
+/**
+ * Голос эксперта
+ */
+export interface VoteBallot {
+  agent: string;
+  choice: string;
+  weight: number;
+  rationale?: string;
+}
+
+/**
+ * Итоги взвешенного голосования
+ */
+export interface VoteTally {
+  /** Победивший вариант (null при равенстве или отсутствии голосов) */
+  winner: string | null;
+  /** Варианты по убыванию суммарного веса */
+  tally: Array<{ choice: string; weight: number; experts: string[] }>;
+  /** Голоса экспертов с обоснованием */
+  ballots: VoteBallot[];
+  /** Эксперты без валидного голоса */
+  abstained: string[];
+}
+
+/**
+ * Контекст раунда обсуждения для эксперта
+ */
+export interface DeliberationContext {
+  /** Исходная задача */
+  task: string;
+  /** Имя эксперта */
+  expert: string;
+  /** Номер раунда (начиная с 2) */
+  round: number;
+  /** Собственное мнение эксперта из предыдущего раунда */
+  own?: AgentResult;
+  /** Мнения остальных экспертов из предыдущего раунда */
+  others: AgentResult[];
+  /** Контекст проекта (файлы, diff), если передан */
+  projectContext?: string;
+}
+
+/**
+ * Оценка согласия экспертов после раунда
+ */
+export interface ConsensusReport {
+  /** Степень согласия от 0 до 1 */
+  score: number;
+  /** Эксперты, не согласные с большинством */
+  dissenters: string[];
+  /** Раунд, после которого проведена оценка */
+  round: number;
+  /** Достигнут ли порог согласия */
+  reached: boolean;
+  /** Краткое описание расхождений */
+  summary?: string;
+}
+
+/**
+ * Настройки определения консенсуса
+ */
+export interface ConsensusConfig {
+  /** Порог согласия (0-1), при котором обсуждение останавливается */
+  threshold: number;
+  /** Агент-судья (по умолчанию председатель) */
+  judge?: string;
+  /** Промпт судьи */
+  promptTemplate?: (task: string, experts: AgentResult[]) => string;
+  /** Собственная оценка согласия вместо вызова судьи */
+  measure?: (task: string, experts: AgentResult[]) =>
+    Pick<ConsensusReport, 'score' | 'dissenters' | 'summary'> | Promise<Pick<ConsensusReport, 'score' | 'dissenters' | 'summary'>>;
+}
+
+/**
+ * Настройки многораундового обсуждения
+ */
+export interface DeliberationConfig {
+  /** Количество раундов (1 — без обсуждения) */
+  rounds: number;
+  /** Промпт раунда обсуждения: шаблон (${task}, ${expert}, ${round}, ${own}, ${others}, ${context}, vars) или функция */
+  promptTemplate?: string | ((context: DeliberationContext) => string);
+  /** Максимальная длина чужого мнения в промпте */
+  maxOpinionLength?: number;
+  /** Досрочная остановка при достижении согласия */
+  consensus?: ConsensusConfig;
 }
 
 /**
@@ -81,12 +593,16 @@ export interface ConsiliumHooks {
   onStart?: (task: string, config: ConsiliumConfig) => void | Promise<void>;
   /** Вызывается перед опросом каждого эксперта */
   onExpertStart?: (expert: string, task: string) => void | Promise<void>;
+  /** Вызывается для каждого фрагмента потокового ответа эксперта */
+  onExpertChunk?: (chunk: AgentChunk) => void;
   /** Вызывается после ответа эксперта */
   onExpertEnd?: (result: AgentResult) => void | Promise<void>;
   /** Вызывается при ошибке эксперта */
   onExpertError?: (result: AgentResult) => void | Promise<void>;
   /** Вызывается перед синтезом председателя */
   onChairStart?: (task: string, experts: AgentResult[]) => void | Promise<void>;
+  /** Вызывается для каждого фрагмента потокового ответа председателя */
+  onChairChunk?: (chunk: AgentChunk) => void;
   /** Вызывается после ответа председателя */
   onChairEnd?: (result: AgentResult) => void | Promise<void>;
   /** Вызывается при ошибке председателя */
@@ -123,6 +639,12 @@ export interface RetryConfig {
   delay: number;
   /** Экспоненциальная задержка */
   exponentialBackoff: boolean;
+  /** Ошибки, после которых делается повтор (остальные считаются фатальными) */
+  retryOn?: AgentErrorCode[];
+  /** Случайная добавка к задержке, доля от неё (0-1) */
+  jitter?: number;
+  /** Максимальная задержка с учётом Retry-After (мс) */
+  maxDelay?: number;
 }
 
 /**
@@ -157,6 +679,34 @@ export interface ConsiliumConfig {
   retry: RetryConfig;
   /** Настройки вывода */
   output: OutputConfig;
+  /** Многораундовое обсуждение экспертов */
+  deliberation?: DeliberationConfig;
+  /** Режим взвешенного голосования */
+  voting?: VotingConfig;
+  /** Кворум успешных экспертов перед синтезом */
+  quorum?: QuorumConfig;
+  /** Максимум одновременно запущенных экспертов */
+  maxConcurrency?: number;
+  /** Лимиты запросов в минуту: по модели (provider/model), провайдеру или '*' для всех */
+  rateLimits?: Record<string, number>;
+  /** Цены моделей для расчёта стоимости: по модели (provider/model) или провайдеру */
+  pricing?: Record<string, ModelPrice>;
+  /** Бюджет запуска */
+  budget?: BudgetConfig;
+  /** Сохранять журнал событий OpenCode в AgentResult.transcript */
+  transcript?: boolean;
+  /** Дисковый кэш ответов агентов (по умолчанию выключен) */
+  cache?: CacheConfig | false;
+  /** Язык встроенных промптов и вывода (по умолчанию ru) */
+  locale?: Locale;
+  /** Язык ответов агентов: код (en) или название языка; добавляет инструкцию к промптам */
+  answerLanguage?: string;
+  /** Панель экспертов: задаёт состав экспертов и разделы ответа председателя */
+  panel?: PanelName;
+  /** Переменные шаблонов промптов */
+  vars?: Record<string, string>;
+  /** Именованные фрагменты шаблонов для ${> имя} */
+  partials?: Record<string, string>;
   /** Хуки жизненного цикла */
   hooks?: ConsiliumHooks;
   /** Рабочая директория */
@@ -165,14 +715,35 @@ export interface ConsiliumConfig {
   opencodePath?: string;
   /** Дополнительные аргументы для opencode CLI */
   opencodeArgs?: string[];
+  /** Режим вызова агентов по умолчанию */
+  invocation?: InvocationMode;
+  /** Бэкенд вызова агентов: opencode, mock или собственная реализация */
+  backend?: 'opencode' | 'mock' | AgentBackend;
+  /** Настройки mock-бэкенда */
+  mock?: MockBackendOptions;
   /** Автоопределение экспертов из opencode.json */
   autoDiscoverAgents?: boolean;
   /** Путь к opencode.json */
   opencodeConfigPath?: string;
+  /** Определения агентов из opencode.json (заполняет loadConfig) */
+  openCodeAgents?: Record<string, OpenCodeAgentDefinition>;
   /** Плагины (функции-расширения) */
   plugins?: ConsiliumPlugin[];
 }
 
+/**
+ * Определение агента в opencode.json
+ */
+export interface OpenCodeAgentDefinition {
+  /** Модель агента (provider/model); без неё — модель opencode.json по умолчанию */
+  model?: string;
+  /** Режим агента: primary, subagent или all */
+  mode?: string;
+  /** Системный промпт агента */
+  prompt?: string;
+  [key: string]: unknown;
+}
+
 /**
  * Плагин консилиума
  */
@@ -197,6 +768,8 @@ export interface RunOptions {
   chair?: string;
   /** Переопределение таймаута */
   timeout?: number;
+  /** Переопределение количества раундов обсуждения */
+  rounds?: number;
   /** Переопределение выходного файла */
   outputFile?: string;
   /** Silent режим (без вывода в консоль) */
@@ -205,6 +778,46 @@ export interface RunOptions {
   hooks?: Partial<ConsiliumHooks>;
   /** Метаданные (передаются в результат) */
   metadata?: Record<string, unknown>;
+  /** Сигнал отмены запуска */
+  signal?: AbortSignal;
+  /** Предыдущий результат: успешные эксперты не опрашиваются повторно */
+  resumeFrom?: ConsiliumResult;
+  /** Контекст проекта для промптов экспертов: источники или готовый текст */
+  context?: ProjectContextOptions | string;
+}
+
+/**
+ * Источники контекста проекта
+ */
+export interface ProjectContextOptions {
+  /** Файлы (пути относительно рабочей директории) */
+  files?: string[];
+  /** Glob-шаблоны файлов: *, ?, ** */
+  globs?: string[];
+  /** git diff: true — незакоммиченные изменения относительно HEAD, строка — относительно ветки или коммита */
+  diff?: boolean | string;
+  /** Произвольный текст, например из stdin */
+  text?: string;
+  /** Дополнительные исключения (glob) к .gitignore и встроенным */
+  ignore?: string[];
+  /** Максимальный размер одного файла (байт) */
+  maxFileSize?: number;
+  /** Максимальный размер всего контекста (символов) */
+  maxTotalSize?: number;
+}
+
+/**
+ * Собранный контекст проекта
+ */
+export interface ProjectContext {
+  /** Текст для подстановки в ${context} */
+  text: string;
+  /** Включённые файлы */
+  files: string[];
+  /** Пропущенные файлы с причиной */
+  skipped: Array<{ path: string; reason: string }>;
+  /** Контекст обрезан по maxTotalSize */
+  truncated: boolean;
 }
 
 /**
@@ -222,8 +835,17 @@ export type ConsiliumStatus =
  * Событие прогресса
  */
 export interface ProgressEvent {
-  type: 'expert_start' | 'expert_end' | 'chair_start' | 'chair_end' | 'error';
+  type:
+    | 'expert_start'
+    | 'expert_chunk'
+    | 'expert_end'
+    | 'chair_start'
+    | 'chair_chunk'
+    | 'chair_end'
+    | 'error';
   agent?: string;
+  /** Раунд обсуждения для событий экспертов */
+  round?: number;
   status: ConsiliumStatus;
   progress: number; // 0-100
   timestamp: number;
@@ -235,6 +857,22 @@ export interface ProgressEvent {
  */
 export type ProgressCallback = (event: ProgressEvent) => void;
 
+/**
+ * Финальное событие потока с результатом консилиума
+ */
+export interface ResultEvent {
+  type: 'result';
+  status: ConsiliumStatus;
+  progress: 100;
+  timestamp: number;
+  result: ConsiliumResult;
+}
+
+/**
+ * Событие, возвращаемое Consilium.stream()
+ */
+export type ConsiliumStreamEvent = ProgressEvent | ResultEvent;
+
 /**
  * Опции CLI
  */
@@ -273,4 +911,48 @@ export interface CLIOptions {
   init?: boolean;
   /** Dry run (без реального вызова) */
   dryRun?: boolean;
+  /** Бэкенд агентов */
+  backend?: string;
+  /** Потоковый вывод ответов агентов */
+  stream?: boolean;
+  /** Файл с частичным результатом для продолжения */
+  resume?: string;
+  /** Количество раундов обсуждения */
+  rounds?: number;
+  /** Порог согласия для досрочной остановки */
+  consensus?: number;
+  /** Варианты голосования через запятую */
+  vote?: string;
+  /** Стратегия синтеза */
+  synthesis?: string;
+  /** Максимум одновременно запущенных экспертов */
+  maxConcurrency?: number;
+  /** Максимальная стоимость запуска в USD */
+  maxCost?: number;
+  /** Максимум токенов на запуск */
+  maxTokens?: number;
+  /** Сохранять журнал событий OpenCode */
+  transcript?: boolean;
+  /** Использовать кэш ответов */
+  cache?: boolean;
+  /** Не использовать кэш ответов */
+  noCache?: boolean;
+  /** Эксперты, которых нужно опросить заново, минуя кэш */
+  refreshExperts?: string[];
+  /** Файлы контекста */
+  files?: string[];
+  /** Glob-шаблоны файлов контекста */
+  globs?: string[];
+  /** git diff в контекст: true или базовая ветка */
+  diff?: boolean | string;
+  /** Читать контекст из stdin */
+  stdin?: boolean;
+  /** Переменные шаблонов из --var */
+  vars?: Record<string, string>;
+  /** Язык из --lang */
+  lang?: string;
+  /** Язык ответов из --answer-lang */
+  answerLang?: string;
+  /** Панель экспертов из --panel */
+  panel?: string;
 }
@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { parseJsonUsage, applyPricing, checkBudget, addUsage, formatUsage } from './usage.js';
+
+describe('usage.ts', () => {
+  describe('parseJsonUsage', () => {
+    it('должен суммировать события step_finish', () => {
+      const output = [
+        '{"type":"text","part":{"text":"Ответ"}}',
+        '{"type":"step_finish","part":{"tokens":{"input":100,"output":20,"reasoning":5,"cache":{"read":50,"write":0}},"cost":0.001}}',
+        '{"type":"step_finish","part":{"tokens":{"input":10,"output":2,"cache":{"read":0,"write":8}},"cost":0}}'
+      ].join('\n');
+
+      assert.deepStrictEqual(parseJsonUsage(output, 'openrouter/free'), {
+        input: 110,
+        output: 27,
+        cacheRead: 50,
+        cacheWrite: 8,
+        cost: 0.001,
+        model: 'openrouter/free'
+      });
+    });
+
+    it('должен возвращать undefined без событий расхода', () => {
+      assert.strictEqual(parseJsonUsage('{"type":"text","part":{"text":"Ответ"}}'), undefined);
+    });
+  });
+
+  describe('applyPricing', () => {
+    const usage = { input: 1_000_000, output: 500_000, cacheRead: 0, cacheWrite: 0, cost: 0, model: 'anthropic/sonnet' };
+
+    it('должен считать стоимость по цене модели или провайдера', () => {
+      assert.strictEqual(applyPricing(usage, { 'anthropic/sonnet': { input: 3, output: 15 } }).cost, 10.5);
+      assert.strictEqual(applyPricing(usage, { anthropic: { input: 1, output: 2 } }).cost, 2);
+    });
+
+    it('должен сохранять стоимость, сообщённую провайдером', () => {
+      assert.strictEqual(applyPricing({ ...usage, cost: 0.5 }, { anthropic: { input: 1, output: 2 } }).cost, 0.5);
+    });
+  });
+
+  describe('checkBudget', () => {
+    it('должен сообщать о превышении стоимости или токенов', () => {
+      const usage = addUsage(
+        { input: 600, output: 100, cacheRead: 0, cacheWrite: 0, cost: 0.02 },
+        { input: 300, output: 100, cacheRead: 0, cacheWrite: 0, cost: 0.02 }
+      );
+
+      assert.strictEqual(checkBudget(usage, { maxTokens: 2000 }), null);
+      assert.match(checkBudget(usage, { maxTokens: 1000 }), /1100 токенов > 1000/);
+      assert.match(checkBudget(usage, { maxCost: 0.03 }), /\$0\.0400 > \$0\.03/);
+      assert.strictEqual(formatUsage(usage), '900 вх. / 200 вых. токенов, $0.0400');
+    });
+
+    it('должен писать причину превышения на языке locale', () => {
+      const usage = { input: 900, output: 200, cacheRead: 0, cacheWrite: 0, cost: 0.04 };
+
+      assert.strictEqual(checkBudget(usage, { maxTokens: 1000 }, 'en'), 'Budget exceeded: 1100 tokens > 1000');
+      assert.strictEqual(checkBudget(usage, { maxCost: 0.03 }, 'zh'), '超出预算：$0.0400 > $0.03');
+    });
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * @fileoverview Учёт токенов, стоимости и бюджета запуска
+ * @module opencode-consilium
+ */
+
+import type { BudgetConfig, Locale, ModelPrice, TokenUsage } from './types.js';
+import { getMessages } from './i18n.js';
+
+/**
+ * Пустой счётчик расхода
+ */
+export function createEmptyUsage(model?: string): TokenUsage {
+  const usage: TokenUsage = { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, cost: 0 };
+  if (model) {
+    usage.model = model;
+  }
+  return usage;
+}
+
+/**
+ * Складывает расход; модель сохраняется, только если совпадает
+ */
+export function addUsage(total: TokenUsage, usage: TokenUsage): TokenUsage {
+  const sum: TokenUsage = {
+    input: total.input + usage.input,
+    output: total.output + usage.output,
+    cacheRead: total.cacheRead + usage.cacheRead,
+    cacheWrite: total.cacheWrite + usage.cacheWrite,
+    cost: total.cost + usage.cost
+  };
+  if (total.model && total.model === usage.model) {
+    sum.model = total.model;
+  }
+  return sum;
+}
+
+/**
+ * Извлекает расход из события step_finish потока OpenCode
+ */
+export function extractEventUsage(line: string): TokenUsage | null {
+  const trimmed = line.trim();
+  if (!trimmed) return null;
+
+  try {
+    const event = JSON.parse(trimmed);
+    const part = event.part;
+    if (event.type !== 'step_finish' || !part?.tokens) {
+      return null;
+    }
+
+    const { tokens } = part;
+    return {
+      input: Number(tokens.input) || 0,
+      output: (Number(tokens.output) || 0) + (Number(tokens.reasoning) || 0),
+      cacheRead: Number(tokens.cache?.read) || 0,
+      cacheWrite: Number(tokens.cache?.write) || 0,
+      cost: Number(part.cost) || 0
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Суммирует расход по JSON-выводу OpenCode CLI
+ */
+export function parseJsonUsage(output: string, model?: string): TokenUsage | undefined {
+  let total: TokenUsage | undefined;
+
+  for (const line of output.split('\n')) {
+    const usage = extractEventUsage(line);
+    if (usage) {
+      total = addUsage(total ?? createEmptyUsage(), usage);
+    }
+  }
+
+  if (total && model) {
+    total.model = model;
+  }
+  return total;
+}
+
+/**
+ * Находит цену модели: точное совпадение, затем провайдер
+ */
+function findPrice(pricing: Record<string, ModelPrice>, model?: string): ModelPrice | undefined {
+  if (!model) return undefined;
+  return pricing[model] ?? pricing[model.split('/')[0]];
+}
+
+/**
+ * Считает стоимость по таблице цен, если провайдер её не сообщил
+ */
+export function applyPricing(usage: TokenUsage, pricing?: Record<string, ModelPrice>): TokenUsage {
+  const price = pricing ? findPrice(pricing, usage.model) : undefined;
+  if (!price || usage.cost > 0) {
+    return usage;
+  }
+
+  const cost = (
+    usage.input * price.input +
+    usage.output * price.output +
+    usage.cacheRead * (price.cacheRead ?? price.input) +
+    usage.cacheWrite * (price.cacheWrite ?? price.input)
+  ) / 1_000_000;
+
+  return { ...usage, cost };
+}
+
+/**
+ * Проверяет бюджет; возвращает причину превышения или null
+ */
+export function checkBudget(usage: TokenUsage, budget?: BudgetConfig, locale?: Locale): string | null {
+  const { errors } = getMessages(locale);
+  if (budget?.maxCost !== undefined && usage.cost > budget.maxCost) {
+    return errors.budgetCost(usage.cost, budget.maxCost);
+  }
+  const tokens = usage.input + usage.output;
+  if (budget?.maxTokens !== undefined && tokens > budget.maxTokens) {
+    return errors.budgetTokens(tokens, budget.maxTokens);
+  }
+  return null;
+}
+
+/**
+ * Кратко форматирует расход для вывода
+ */
+export function formatUsage(usage: TokenUsage, locale?: Locale): string {
+  const messages = getMessages(locale).output;
+  let text = messages.usageLine(usage.input, usage.output);
+  if (usage.cacheRead || usage.cacheWrite) {
+    text += ` / ${messages.cacheTokens(usage.cacheRead, usage.cacheWrite)}`;
+  }
+  return `${text} ${messages.tokens}, $${usage.cost.toFixed(4)}`;
+}
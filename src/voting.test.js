@@ -0,0 +1,73 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import {
+  buildVoteSchema,
+  getExpertWeight,
+  tallyVotes,
+  formatVoteTally
+} from './voting.js';
+
+const experts = [
+  { name: 'arch', priority: 1 },
+  { name: 'ux', priority: 2 },
+  { name: 'sec', priority: 3, weight: 5 }
+];
+
+function ballot(agent, choice, rationale) {
+  return { agent, text: '', success: true, data: { choice, rationale } };
+}
+
+describe('voting.ts', () => {
+  describe('getExpertWeight', () => {
+    it('должен давать больший вес более приоритетному эксперту', () => {
+      assert.strictEqual(getExpertWeight(experts[0], experts), 3);
+      assert.strictEqual(getExpertWeight(experts[1], experts), 2);
+    });
+
+    it('должен предпочитать явный weight', () => {
+      assert.strictEqual(getExpertWeight(experts[2], experts), 5);
+    });
+
+    it('должен давать вес 1 без priority и weight', () => {
+      assert.strictEqual(getExpertWeight({ name: 'ba' }, experts), 1);
+    });
+  });
+
+  describe('tallyVotes', () => {
+    it('должен суммировать веса и выбирать победителя', () => {
+      const vote = tallyVotes([
+        ballot('arch', 'PostgreSQL', 'Надёжно'),
+        ballot('ux', 'MongoDB'),
+        ballot('sec', 'postgresql')
+      ], experts);
+
+      assert.strictEqual(vote.winner, 'PostgreSQL');
+      assert.deepStrictEqual(vote.tally, [
+        { choice: 'PostgreSQL', weight: 8, experts: ['arch', 'sec'] },
+        { choice: 'MongoDB', weight: 2, experts: ['ux'] }
+      ]);
+      assert.strictEqual(vote.ballots[0].rationale, 'Надёжно');
+    });
+
+    it('должен фиксировать равенство и воздержавшихся', () => {
+      const vote = tallyVotes([
+        ballot('arch', 'A'),
+        { agent: 'ux', text: '[Таймаут]', success: false },
+        ballot('sec', 'B')
+      ], [{ name: 'arch', weight: 2 }, { name: 'ux' }, { name: 'sec', weight: 2 }]);
+
+      assert.strictEqual(vote.winner, null);
+      assert.deepStrictEqual(vote.abstained, ['ux']);
+      assert.match(formatVoteTally(vote), /равенство голосов/);
+    });
+  });
+
+  describe('buildVoteSchema', () => {
+    it('должен ограничивать выбор вариантами', () => {
+      const schema = buildVoteSchema(['A', 'B']);
+
+      assert.deepStrictEqual(schema.properties.choice.enum, ['A', 'B']);
+      assert.deepStrictEqual(schema.required, ['choice', 'rationale']);
+    });
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * @fileoverview Режим взвешенного голосования экспертов
+ * @module opencode-consilium
+ */
+
+import type {
+  AgentResult,
+  ExpertConfig,
+  Locale,
+  OutputSchema,
+  VoteBallot,
+  VoteTally
+} from './types.js';
+import { getMessages } from './i18n.js';
+
+/**
+ * Имя агента в результате голосования без председателя
+ */
+export const VOTING_AGENT = 'voting';
+
+/**
+ * Схема голоса эксперта
+ */
+export function buildVoteSchema(options?: string[], locale?: Locale): OutputSchema {
+  const messages = getMessages(locale).prompts.vote;
+  return {
+    type: 'object',
+    required: ['choice', 'rationale'],
+    properties: {
+      choice: options && options.length > 0
+        ? { type: 'string', enum: options, description: messages.choice }
+        : { type: 'string', description: messages.choiceFree },
+      rationale: { type: 'string', description: messages.rationale }
+    }
+  };
+}
+
+/**
+ * Вес голоса эксперта: явный weight или ранг по priority (1 — высший)
+ */
+export function getExpertWeight(expert: ExpertConfig, experts: ExpertConfig[]): number {
+  if (expert.weight !== undefined) {
+    return expert.weight;
+  }
+  if (expert.priority === undefined) {
+    return 1;
+  }
+
+  const maxPriority = Math.max(...experts.map(e => e.priority ?? 0));
+  return Math.max(1, maxPriority - expert.priority + 1);
+}
+
+/**
+ * Подсчитывает голоса экспертов
+ */
+export function tallyVotes(results: AgentResult[], experts: ExpertConfig[]): VoteTally {
+  const ballots: VoteBallot[] = [];
+  const abstained: string[] = [];
+
+  for (const result of results) {
+    const vote = result.data as { choice?: unknown; rationale?: unknown } | undefined;
+    const expert = experts.find(e => e.name === result.agent);
+
+    if (!result.success || !expert || typeof vote?.choice !== 'string' || !vote.choice.trim()) {
+      abstained.push(result.agent);
+      continue;
+    }
+
+    ballots.push({
+      agent: result.agent,
+      choice: vote.choice.trim(),
+      weight: getExpertWeight(expert, experts),
+      rationale: typeof vote.rationale === 'string' ? vote.rationale : undefined
+    });
+  }
+
+  const totals = new Map<string, { choice: string; weight: number; experts: string[] }>();
+  for (const ballot of ballots) {
+    // Варианты без списка сравниваем без учёта регистра
+    const key = ballot.choice.toLowerCase();
+    const entry = totals.get(key) ?? { choice: ballot.choice, weight: 0, experts: [] };
+    entry.weight += ballot.weight;
+    entry.experts.push(ballot.agent);
+    totals.set(key, entry);
+  }
+
+  const tally = [...totals.values()].sort((a, b) => b.weight - a.weight);
+  const isTie = tally.length > 1 && tally[0].weight === tally[1].weight;
+
+  return {
+    winner: tally.length > 0 && !isTie ? tally[0].choice : null,
+    tally,
+    ballots,
+    abstained
+  };
+}
+
+/**
+ * Форматирует итоги голосования для вывода и промпта председателя
+ */
+export function formatVoteTally(vote: VoteTally, locale?: Locale): string {
+  const messages = getMessages(locale).output.vote;
+  const totalWeight = vote.tally.reduce((sum, entry) => sum + entry.weight, 0);
+
+  let text = `## ${messages.title}\n\n`;
+  if (vote.winner) {
+    text += `**${messages.decision}:** ${vote.winner}\n\n`;
+  } else {
+    text += `**${messages.decision}:** ${vote.tally.length > 0 ? messages.tie : messages.noVotes}\n\n`;
+  }
+
+  for (const entry of vote.tally) {
+    const share = totalWeight > 0 ? Math.round((entry.weight / totalWeight) * 100) : 0;
+    text += `- ${entry.choice}: ${entry.weight} (${share}%) — ${entry.experts.join(', ')}\n`;
+  }
+
+  if (vote.ballots.length > 0) {
+    text += `\n### ${messages.rationales}\n\n`;
+    for (const ballot of vote.ballots) {
+      text += `- **${ballot.agent.toUpperCase()}** (${messages.weight} ${ballot.weight}) → ${ballot.choice}`;
+      text += ballot.rationale ? `: ${ballot.rationale}\n` : `\n`;
+    }
+  }
+
+  if (vote.abstained.length > 0) {
+    text += `\n**${messages.abstained}:** ${vote.abstained.join(', ')}\n`;
+  }
+
+  return text.trimEnd();
+}